@@ -0,0 +1,216 @@
+// AHP Time Tracker service worker
+// Precaches the app shell (HTML, JS, CSS and the Inter font files) so the app
+// opens with no signal, and keeps the last known roster, clock status and
+// history so they can be shown (marked as stale) while offline, until the tech
+// signs out. It also shows the tech's reminder notifications
+// (src/lib/reminders.ts).
+
+const CACHE_VERSION = "v1";
+const SHELL_CACHE = `ahp-shell-${CACHE_VERSION}`;
+const DATA_CACHE = `ahp-data-${CACHE_VERSION}`;
+const REMINDER_CACHE = `ahp-reminders-${CACHE_VERSION}`;
+
+const SHELL_URLS = ["/", "/manifest.json", "/icon.svg"];
+const DATA_PATHS = ["/api/technicians", "/api/sites", "/api/status", "/api/history"];
+
+// Header added to responses served from the data cache, read by src/lib/api.ts
+const CACHED_AT_HEADER = "X-AHP-Cached-At";
+
+// Find the hashed Next.js assets (chunks, CSS, font files) referenced by a page or stylesheet
+function extractStaticAssets(text) {
+  const matches = text.match(/\/_next\/static\/[^"'\s)\\]+/g) || [];
+  return [...new Set(matches)];
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+
+  const shell = await cache.match("/");
+  if (!shell) return;
+
+  const assets = extractStaticAssets(await shell.text());
+  await Promise.all(
+    assets.map(async (url) => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) return;
+        await cache.put(url, response.clone());
+
+        // Stylesheets point at the font files, so pull those in too
+        if (url.endsWith(".css")) {
+          const fontUrls = extractStaticAssets(await response.text());
+          await Promise.all(
+            fontUrls.map((fontUrl) => cache.add(fontUrl).catch(() => undefined))
+          );
+        }
+      } catch {
+        // A missing chunk shouldn't block install; it will be cached on first use
+      }
+    })
+  );
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE && key !== REMINDER_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Page navigations: network first, fall back to the cached shell
+async function handleNavigation(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    const cached = (await caches.match(request)) || (await caches.match("/"));
+    return cached || Response.error();
+  }
+}
+
+// Hashed build assets never change, so cache first
+async function handleStaticAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Backend reads: network first, keep a timestamped copy for offline use
+async function handleDataRequest(request) {
+  const cache = await caches.open(DATA_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const body = await response.clone().blob();
+      await cache.put(
+        request,
+        new Response(body, {
+          status: response.status,
+          headers: {
+            "Content-Type": response.headers.get("Content-Type") || "application/json",
+            "Access-Control-Allow-Origin": self.location.origin,
+            "Access-Control-Expose-Headers": CACHED_AT_HEADER,
+            [CACHED_AT_HEADER]: new Date().toISOString(),
+          },
+        })
+      );
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(handleStaticAsset(request));
+  } else if (url.origin === self.location.origin && DATA_PATHS.includes(url.pathname)) {
+    event.respondWith(handleDataRequest(request));
+  }
+});
+
+// Reminders
+// The app posts the reminders that could still come up. Whenever the worker
+// wakes (the app checking in, or a periodic sync) it shows the due ones it
+// hasn't shown yet. The list and the shown IDs live in the cache so they
+// survive the worker being stopped.
+
+const REMINDER_KEY = "/__reminders";
+
+async function readReminders() {
+  const cache = await caches.open(REMINDER_CACHE);
+  const stored = await cache.match(REMINDER_KEY);
+  return stored ? stored.json() : { reminders: [], shown: [] };
+}
+
+async function writeReminders(state) {
+  const cache = await caches.open(REMINDER_CACHE);
+  await cache.put(
+    REMINDER_KEY,
+    new Response(JSON.stringify(state), { headers: { "Content-Type": "application/json" } })
+  );
+}
+
+async function showDueReminders() {
+  const state = await readReminders();
+  const now = Date.now();
+  const due = state.reminders.filter(
+    (reminder) => Date.parse(reminder.at) <= now && !state.shown.includes(reminder.id)
+  );
+
+  for (const reminder of due) {
+    await self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      tag: reminder.id,
+      icon: "/icon.svg",
+    });
+  }
+
+  // Reminder IDs carry their date, so only recent ones need remembering
+  await writeReminders({ ...state, shown: [...state.shown, ...due.map((reminder) => reminder.id)].slice(-50) });
+}
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "reminders") {
+    event.waitUntil(
+      readReminders()
+        .then((state) => writeReminders({ ...state, reminders: event.data.reminders }))
+        .then(showDueReminders)
+    );
+  } else if (event.data?.type === "check-reminders") {
+    event.waitUntil(showDueReminders());
+  } else if (event.data?.type === "clear-data") {
+    // Signed out: the next person on this device mustn't see the last one's data
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+});
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === "ahp-reminders") {
+    event.waitUntil(showDueReminders());
+  }
+});
+
+// Tapping a reminder opens the app, reusing a window that's already open
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      return open ? open.focus() : self.clients.openWindow("/");
+    })
+  );
+});
@@ -0,0 +1,54 @@
+// Look for changes the local data file recorded twice.
+// Usage: npm run check-duplicates
+// Reads .data/timetracker.json (or AHP_DATA_FILE) and lists shifts that share a
+// shift ID or clock-in time, and mileage entries that match on everything a tech
+// types in. Exits non-zero when it finds any, so it can follow a mock-backend run.
+
+import { promises as fs } from "fs";
+import path from "path";
+
+const dataFile = process.env.AHP_DATA_FILE || path.join(process.cwd(), ".data", "timetracker.json");
+
+let data;
+try {
+  data = JSON.parse(await fs.readFile(dataFile, "utf8"));
+} catch (error) {
+  if (error.code !== "ENOENT") throw error;
+  console.log(`No data file at ${dataFile}; nothing to check`);
+  process.exit(0);
+}
+
+// Groups of two or more records that share a key
+function repeats(records, keyOf) {
+  const groups = new Map();
+  for (const record of records) {
+    const key = keyOf(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  }
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+const shifts = data.shifts ?? [];
+// Deleting one of a pair is how a tech fixes a duplicate
+const mileage = (data.mileage ?? []).filter((entry) => !entry.deleted_at);
+const problems = [
+  ...repeats(shifts, (shift) => shift.shift_id).map(
+    (group) => `Shift ${group[0].shift_id} is recorded ${group.length} times`
+  ),
+  ...repeats(shifts, (shift) => `${shift.tech_name} ${shift.clock_in}`).map(
+    (group) => `${group[0].tech_name} has ${group.length} shifts clocked in at ${group[0].clock_in}`
+  ),
+  ...repeats(mileage, (entry) => [entry.tech_name, entry.date, entry.miles, entry.description].join("|")).map(
+    (group) =>
+      `${group[0].tech_name} has ${group.length} entries of ${group[0].miles} mi on ${group[0].date}` +
+      ` (${group.map((entry) => entry.entry_id).join(", ")})`
+  ),
+];
+
+console.log(`Checked ${shifts.length} shifts and ${mileage.length} mileage entries in ${dataFile}`);
+if (problems.length === 0) {
+  console.log("No duplicates found");
+} else {
+  problems.forEach((problem) => console.log(`- ${problem}`));
+  process.exit(1);
+}
@@ -0,0 +1,33 @@
+// Set or replace a technician's PIN for the in-app sign-in.
+// Usage: npm run set-pin -- <tech name> <pin>
+// Writes the scrypt hash to .data/auth.json (or AHP_AUTH_FILE), in the format
+// src/lib/server/auth.ts verifies, and clears any lockout for that technician.
+
+import { randomBytes, scryptSync } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+const [techName, pin] = process.argv.slice(2);
+
+if (!techName || !/^\d{4,8}$/.test(pin ?? "")) {
+  console.error("Usage: npm run set-pin -- <tech name> <4-8 digit pin>");
+  process.exit(1);
+}
+
+const authFile = process.env.AHP_AUTH_FILE || path.join(process.cwd(), ".data", "auth.json");
+
+let data = { pins: {}, lockouts: {} };
+try {
+  data = { ...data, ...JSON.parse(await fs.readFile(authFile, "utf8")) };
+} catch (error) {
+  if (error.code !== "ENOENT") throw error;
+}
+
+const salt = randomBytes(16);
+const hash = scryptSync(pin, salt, 32);
+data.pins[techName] = `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+delete data.lockouts[techName];
+
+await fs.mkdir(path.dirname(authFile), { recursive: true });
+await fs.writeFile(authFile, JSON.stringify(data, null, 2));
+console.log(`PIN set for ${techName}`);
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { login } from "@/lib/server/auth";
+import { badRequest, isNonEmptyString, readJsonBody } from "@/lib/server/http";
+
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const { tech_name, pin } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+  if (typeof pin !== "string" || !/^\d{4,8}$/.test(pin)) return badRequest("PIN must be 4-8 digits");
+
+  const result = await login(tech_name, pin);
+  if (result.success) return NextResponse.json(result);
+
+  return NextResponse.json(result, { status: result.locked_until ? 423 : 401 });
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import {
+  authorizeTech,
+  badRequest,
+  checkIdempotencyKey,
+  isIsoTimestamp,
+  isNonEmptyString,
+  isPunchLocation,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/server/http";
+import type { ClockResponse } from "@/lib/backend/types";
+import { serverBackend } from "@/lib/server/backend";
+import { locatePunch } from "@/lib/server/geofences";
+import { checkClockInAllowed } from "@/lib/server/timesheets";
+import { newShiftId } from "@/lib/shiftId";
+
+// A punch the backend refused (already clocked in, a shift already closed, a
+// clock-out before its clock-in) conflicts with what's stored, so it goes back
+// as a 409
+function clockResult(result: ClockResponse) {
+  return NextResponse.json(result, { status: result.success || result.retryable ? 200 : 409 });
+}
+
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const { tech_name, action, timestamp, shift_id, site_id, location } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, tech_name);
+  if (authError) return authError;
+
+  const keyError = checkIdempotencyKey(request);
+  if (keyError) return keyError;
+  const idempotencyKey = readIdempotencyKey(request);
+
+  if (!isIsoTimestamp(timestamp)) return badRequest("timestamp must be an ISO date");
+  if (location != null && !isPunchLocation(location)) {
+    return badRequest("location must have latitude, longitude and accuracy_m");
+  }
+
+  if (action === "clock_in") {
+    // Older cached clients don't send an ID yet
+    const shiftId = shift_id === undefined ? newShiftId() : shift_id;
+    if (!isNonEmptyString(shiftId)) return badRequest("shift_id must be a non-empty string");
+    if (site_id != null && !isNonEmptyString(site_id)) return badRequest("site_id must be a non-empty string");
+    const lockError = await checkClockInAllowed(tech_name, timestamp);
+    if (lockError) return lockError;
+    const punchLocation = await locatePunch(location ?? null);
+    return clockResult(
+      await serverBackend.clockIn(tech_name, timestamp, shiftId, site_id ?? null, punchLocation, idempotencyKey)
+    );
+  }
+  if (action === "clock_out") {
+    // Older cached clients don't send one; the open shift is closed then
+    if (shift_id != null && !isNonEmptyString(shift_id)) return badRequest("shift_id must be a non-empty string");
+    const punchLocation = await locatePunch(location ?? null);
+    return clockResult(
+      await serverBackend.clockOut(tech_name, timestamp, shift_id ?? null, punchLocation, idempotencyKey)
+    );
+  }
+  if (action === "switch_site") {
+    if (!isNonEmptyString(site_id)) return badRequest("site_id is required");
+    return clockResult(await serverBackend.switchSite(tech_name, timestamp, site_id, idempotencyKey));
+  }
+  if (action === "break_start") {
+    return clockResult(await serverBackend.startBreak(tech_name, timestamp, idempotencyKey));
+  }
+  if (action === "break_end") {
+    return clockResult(await serverBackend.endBreak(tech_name, timestamp, idempotencyKey));
+  }
+  return badRequest("action must be clock_in, clock_out, switch_site, break_start or break_end");
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import {
+  authorizeTech,
+  badRequest,
+  checkIdempotencyKey,
+  isIsoTimestamp,
+  isNonEmptyString,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/server/http";
+import { serverBackend } from "@/lib/server/backend";
+import { checkEditAllowed } from "@/lib/server/timesheets";
+
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const { tech_name, shift_id, field, old_value, new_value, reason } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, tech_name);
+  if (authError) return authError;
+
+  const keyError = checkIdempotencyKey(request);
+  if (keyError) return keyError;
+  const idempotencyKey = readIdempotencyKey(request);
+
+  if (!isNonEmptyString(shift_id)) return badRequest("shift_id is required");
+  if (field !== "clock_in" && field !== "clock_out") {
+    return badRequest("field must be clock_in or clock_out");
+  }
+  if (typeof old_value !== "string" && old_value !== null) return badRequest("old_value is required");
+  if (!isIsoTimestamp(new_value)) return badRequest("new_value must be an ISO date");
+  if (!isNonEmptyString(reason)) return badRequest("reason is required");
+
+  const lockError = await checkEditAllowed(tech_name, shift_id, field, new_value);
+  if (lockError) return lockError;
+
+  return NextResponse.json(
+    await serverBackend.editEntry(tech_name, shift_id, field, old_value, new_value, reason, idempotencyKey)
+  );
+}
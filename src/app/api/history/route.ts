@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { authorizeTech, badRequest } from "@/lib/server/http";
+import { serverBackend } from "@/lib/server/backend";
+
+export async function GET(request: NextRequest) {
+  const techName = request.nextUrl.searchParams.get("tech_name");
+  const days = Number(request.nextUrl.searchParams.get("days") ?? 14);
+  if (!techName) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, techName);
+  if (authError) return authError;
+
+  if (!Number.isInteger(days) || days < 1) return badRequest("days must be a positive integer");
+
+  // 502 keeps an unusable answer out of the offline cache
+  const history = await serverBackend.fetchHistory(techName, days);
+  return NextResponse.json(history, { status: history.error ? 502 : 200 });
+}
@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { TeamOverviewResponse } from "@/lib/managerApi";
+import { authorizeManager, badRequest } from "@/lib/server/http";
+import { loadTeam } from "@/lib/server/team";
+
+export async function GET(request: NextRequest) {
+  const authError = authorizeManager(request);
+  if (authError) return authError;
+
+  const days = Number(request.nextUrl.searchParams.get("days") ?? 14);
+  if (!Number.isInteger(days) || days < 1) return badRequest("days must be a positive integer");
+
+  const { team, error } = await loadTeam(days);
+  if (error) {
+    const response: TeamOverviewResponse = { success: false, team, error };
+    return NextResponse.json(response, { status: 502 });
+  }
+
+  const response: TeamOverviewResponse = { success: true, team };
+  return NextResponse.json(response);
+}
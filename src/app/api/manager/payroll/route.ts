@@ -0,0 +1,95 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { daysBetween, todayKey, weekStartKey } from "@/lib/businessTime";
+import { teamLoadError, type PayrollResponse } from "@/lib/managerApi";
+import {
+  clientHoursToCsv,
+  computeClientHours,
+  computePayroll,
+  payrollToCsv,
+  payrollToIif,
+  techsWithoutRate,
+} from "@/lib/payroll";
+import { serverBackend } from "@/lib/server/backend";
+import { COMPANY_NAME, QB_OVERTIME_PAYROLL_ITEM, QB_REGULAR_PAYROLL_ITEM } from "@/lib/server/config";
+import { authorizeManager, badRequest, isDateKey } from "@/lib/server/http";
+import { loadTeam } from "@/lib/server/team";
+
+// GET /api/manager/payroll?start=YYYY-MM-DD&end=YYYY-MM-DD&format=json|csv|iif|clients
+export async function GET(request: NextRequest) {
+  const authError = authorizeManager(request);
+  if (authError) return authError;
+
+  const params = request.nextUrl.searchParams;
+  const start = params.get("start");
+  const end = params.get("end");
+  const format = params.get("format") ?? "json";
+  if (!isDateKey(start) || !isDateKey(end)) return badRequest("start and end must be YYYY-MM-DD");
+  if (start > end) return badRequest("start must be on or before end");
+  if (format !== "json" && format !== "csv" && format !== "iif" && format !== "clients") {
+    return badRequest("format must be json, csv, iif or clients");
+  }
+
+  // History is fetched as "the last N days", so reach back to the Sunday before
+  // the period start; overtime counts the whole week
+  const daysBack = daysBetween(weekStartKey(start), todayKey()) + 1;
+  const [{ team, error }, sites] = await Promise.all([loadTeam(Math.max(daysBack, 1)), serverBackend.fetchSites()]);
+
+  // A missing technician list or history would quietly leave someone out of payroll
+  const loadError = error ?? teamLoadError(team);
+  if (loadError) {
+    const response: PayrollResponse = { success: false, lines: [], clients: [], error: loadError };
+    return NextResponse.json(response, { status: 502 });
+  }
+
+  const inputs = team.map(({ technician, history }) => ({
+    technician,
+    time_entries: history.time_entries,
+    mileage_entries: history.mileage_entries,
+  }));
+  const lines = computePayroll(inputs, start, end);
+  const clients = computeClientHours(inputs, sites, start, end);
+
+  // Pay files would carry $0 for hours nobody priced
+  const unpriced = techsWithoutRate(lines);
+  if ((format === "csv" || format === "iif") && unpriced.length > 0) {
+    return NextResponse.json(
+      { success: false, error: `Set an hourly rate for ${unpriced.join(", ")} before exporting pay` },
+      { status: 409 }
+    );
+  }
+
+  if (format === "csv") {
+    return new NextResponse(payrollToCsv(lines, start, end), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="payroll_${start}_${end}.csv"`,
+      },
+    });
+  }
+
+  if (format === "clients") {
+    return new NextResponse(clientHoursToCsv(clients, start, end), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="client_hours_${start}_${end}.csv"`,
+      },
+    });
+  }
+
+  if (format === "iif") {
+    const iif = payrollToIif(lines, {
+      companyName: COMPANY_NAME,
+      regularPayrollItem: QB_REGULAR_PAYROLL_ITEM,
+      overtimePayrollItem: QB_OVERTIME_PAYROLL_ITEM,
+    });
+    return new NextResponse(iif, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename="timesheets_${start}_${end}.iif"`,
+      },
+    });
+  }
+
+  const response: PayrollResponse = { success: true, lines, clients };
+  return NextResponse.json(response);
+}
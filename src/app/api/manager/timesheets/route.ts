@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/server/auth";
+import {
+  authorizeManager,
+  badRequest,
+  checkIdempotencyKey,
+  isDateKey,
+  isNonEmptyString,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/server/http";
+import { serverBackend } from "@/lib/server/backend";
+import { isWeekStart } from "@/lib/timesheets";
+
+export async function POST(request: Request) {
+  const authError = authorizeManager(request);
+  if (authError) return authError;
+
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const keyError = checkIdempotencyKey(request);
+  if (keyError) return keyError;
+  const idempotencyKey = readIdempotencyKey(request);
+
+  const { tech_name, week_start, decision, manager_name, reason } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+  if (!isDateKey(week_start) || !isWeekStart(week_start)) {
+    return badRequest("week_start must be the Sunday a week starts on");
+  }
+  if (decision !== "approve" && decision !== "reopen") {
+    return badRequest("decision must be approve or reopen");
+  }
+  // Decisions are recorded under the name the manager signed in with
+  const managerName = getSession(request)!.tech_name;
+  if (manager_name !== managerName) {
+    return badRequest("manager_name must be the signed-in manager");
+  }
+  if (decision === "reopen" && !isNonEmptyString(reason)) return badRequest("reason is required to reopen a week");
+
+  return NextResponse.json(
+    await serverBackend.reviewTimesheet(
+      tech_name,
+      week_start,
+      decision,
+      managerName,
+      typeof reason === "string" ? reason : "",
+      idempotencyKey
+    )
+  );
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import {
+  authorizeTech,
+  badRequest,
+  checkIdempotencyKey,
+  isDateKey,
+  isNonEmptyString,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/server/http";
+import { serverBackend } from "@/lib/server/backend";
+import { checkMileageChangeAllowed } from "@/lib/server/timesheets";
+
+// Corrects or deletes one of the tech's mileage entries. Either way a reason is
+// required; it goes into the audit trail with the old values.
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const { tech_name, entry_id, action, date, miles, description, reason } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, tech_name);
+  if (authError) return authError;
+
+  const keyError = checkIdempotencyKey(request);
+  if (keyError) return keyError;
+  const idempotencyKey = readIdempotencyKey(request);
+
+  if (!isNonEmptyString(entry_id)) return badRequest("entry_id is required");
+  if (action !== "edit" && action !== "delete") return badRequest("action must be edit or delete");
+  if (!isNonEmptyString(reason)) return badRequest("reason is required");
+
+  if (action === "delete") {
+    const lockError = await checkMileageChangeAllowed(tech_name, entry_id, null);
+    if (lockError) return lockError;
+
+    return NextResponse.json(await serverBackend.deleteMileage(tech_name, entry_id, reason, idempotencyKey));
+  }
+
+  if (!isDateKey(date)) return badRequest("date must be YYYY-MM-DD");
+  if (typeof miles !== "number" || !Number.isFinite(miles) || miles < 0) {
+    return badRequest("miles must be a non-negative number");
+  }
+  if (!isNonEmptyString(description)) return badRequest("description is required");
+
+  const lockError = await checkMileageChangeAllowed(tech_name, entry_id, date);
+  if (lockError) return lockError;
+
+  return NextResponse.json(
+    await serverBackend.editMileage(tech_name, entry_id, { date, miles, description }, reason, idempotencyKey)
+  );
+}
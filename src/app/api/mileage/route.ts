@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import {
+  authorizeTech,
+  badRequest,
+  checkIdempotencyKey,
+  isDateKey,
+  isNonEmptyString,
+  isPhotoUploadList,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/server/http";
+import { MAX_PHOTOS_PER_ENTRY } from "@/lib/photos";
+import { serverBackend } from "@/lib/server/backend";
+import { checkNewMileageAllowed } from "@/lib/server/timesheets";
+
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const { tech_name, date, miles, description, photos } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, tech_name);
+  if (authError) return authError;
+
+  const keyError = checkIdempotencyKey(request);
+  if (keyError) return keyError;
+  const idempotencyKey = readIdempotencyKey(request);
+
+  if (!isDateKey(date)) return badRequest("date must be YYYY-MM-DD");
+  if (typeof miles !== "number" || !Number.isFinite(miles) || miles < 0) {
+    return badRequest("miles must be a non-negative number");
+  }
+  if (!isNonEmptyString(description)) return badRequest("description is required");
+  if (photos !== undefined && !isPhotoUploadList(photos)) {
+    return badRequest(`photos must be up to ${MAX_PHOTOS_PER_ENTRY} compressed JPEG photos`);
+  }
+
+  const lockError = await checkNewMileageAllowed(tech_name, date);
+  if (lockError) return lockError;
+
+  return NextResponse.json(
+    await serverBackend.submitMileage(tech_name, date, miles, description, {}, photos ?? [], idempotencyKey)
+  );
+}
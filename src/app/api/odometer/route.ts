@@ -0,0 +1,109 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  authorizeTech,
+  badRequest,
+  checkIdempotencyKey,
+  isIsoTimestamp,
+  isNonEmptyString,
+  isPhotoUpload,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/server/http";
+import { serverBackend } from "@/lib/server/backend";
+import { checkNewMileageAllowed } from "@/lib/server/timesheets";
+import type { OdometerReading, Photo } from "@/lib/backend/types";
+import { dateKeyFor } from "@/lib/businessTime";
+import { derivedIdempotencyKey } from "@/lib/idempotency";
+import { isRepeatReading, tripMiles, validateOdometerReading } from "@/lib/odometer";
+import { toPhoto } from "@/lib/photos";
+import { MILEAGE_POLICY } from "@/lib/reimbursement";
+
+export async function GET(request: NextRequest) {
+  const techName = request.nextUrl.searchParams.get("tech_name");
+  const vehicleId = request.nextUrl.searchParams.get("vehicle_id");
+  if (!techName) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, techName);
+  if (authError) return authError;
+
+  if (!vehicleId) return badRequest("vehicle_id is required");
+  // A reading says where a vehicle has been, so techs only see the one assigned to them
+  const technician = await serverBackend.fetchTechnician(techName);
+  if (!technician?.vehicle_id || technician.vehicle_id !== vehicleId) {
+    return NextResponse.json({ success: false, error: "That vehicle isn't assigned to you" }, { status: 403 });
+  }
+  return NextResponse.json({ reading: await serverBackend.lastOdometerReading(vehicleId) });
+}
+
+// An end reading closes out the shift's trip and logs it as mileage. The trip is
+// logged before the reading is stored, so a retry after either step fails still
+// finds the start reading to measure from.
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const { tech_name, vehicle_id, shift_id, kind, reading, timestamp, photo } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, tech_name);
+  if (authError) return authError;
+
+  const keyError = checkIdempotencyKey(request);
+  if (keyError) return keyError;
+  const idempotencyKey = readIdempotencyKey(request);
+
+  if (!isNonEmptyString(vehicle_id)) return badRequest("vehicle_id is required");
+  if (!isNonEmptyString(shift_id)) return badRequest("shift_id is required");
+  if (kind !== "start" && kind !== "end") return badRequest("kind must be start or end");
+  if (typeof reading !== "number" || !Number.isFinite(reading) || reading < 0) {
+    return badRequest("reading must be a non-negative number");
+  }
+  if (!isIsoTimestamp(timestamp)) return badRequest("timestamp must be an ISO date");
+  if (photo != null && !isPhotoUpload(photo)) return badRequest("photo must be a compressed JPEG photo");
+
+  const odometerReading: OdometerReading = { tech_name, vehicle_id, shift_id, kind, reading, timestamp };
+  const previous = await serverBackend.lastOdometerReading(vehicle_id);
+  // Already stored, and its trip logged, before the answer went missing
+  if (isRepeatReading(odometerReading, previous)) {
+    return NextResponse.json({ success: true });
+  }
+
+  const error = validateOdometerReading(kind, reading, shift_id, previous);
+  if (error) return NextResponse.json({ success: false, error });
+
+  if (kind === "start" || !previous) {
+    return NextResponse.json(await serverBackend.recordOdometer(odometerReading, photo ?? undefined, idempotencyKey));
+  }
+
+  const technician = await serverBackend.fetchTechnician(tech_name);
+  const commuteMiles = MILEAGE_POLICY.deduct_fixed_route_miles ? technician?.fixed_route_miles : 0;
+  const trip = tripMiles(previous.reading, reading, commuteMiles);
+  const tripDate = dateKeyFor(previous.timestamp);
+  const lockError = await checkNewMileageAllowed(tech_name, tripDate);
+  if (lockError) return lockError;
+
+  const mileage = await serverBackend.submitMileage(
+    tech_name,
+    tripDate,
+    trip.miles,
+    `Odometer ${previous.reading}–${reading} (${vehicle_id})`,
+    {
+      vehicle_id,
+      odometer_start: previous.reading,
+      odometer_end: reading,
+      commute_deducted_miles: trip.commute_deducted_miles,
+      photos: [previous.photo, photo ? toPhoto(photo) : undefined].filter((p): p is Photo => !!p),
+    },
+    [],
+    derivedIdempotencyKey(idempotencyKey, "mileage")
+  );
+  if (!mileage.success) return NextResponse.json(mileage);
+
+  const recorded = await serverBackend.recordOdometer(odometerReading, photo ?? undefined, idempotencyKey);
+  return NextResponse.json({
+    ...recorded,
+    miles: trip.miles,
+    entry_id: mileage.entry_id,
+    commute_deducted_miles: trip.commute_deducted_miles,
+  });
+}
@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  authorizeTech,
+  authorizeTechOrManager,
+  badRequest,
+  checkIdempotencyKey,
+  isNonEmptyString,
+  isPhotoUploadList,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/server/http";
+import { serverBackend } from "@/lib/server/backend";
+import { isPhotoId, MAX_PHOTOS_PER_ENTRY } from "@/lib/photos";
+
+// Full-size image for a thumbnail
+export async function GET(request: NextRequest) {
+  const techName = request.nextUrl.searchParams.get("tech_name");
+  const photoId = request.nextUrl.searchParams.get("photo_id");
+  if (!techName) return badRequest("tech_name is required");
+
+  const authError = authorizeTechOrManager(request, techName);
+  if (authError) return authError;
+
+  if (!isPhotoId(photoId)) return badRequest("photo_id is required");
+
+  const image = await serverBackend.fetchPhoto(techName, photoId);
+  if (!image) {
+    return NextResponse.json({ success: false, error: "Photo not found" }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, image });
+}
+
+// Photos added to a mileage entry after it was saved
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const { tech_name, entry_id, photos } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, tech_name);
+  if (authError) return authError;
+
+  const keyError = checkIdempotencyKey(request);
+  if (keyError) return keyError;
+  const idempotencyKey = readIdempotencyKey(request);
+
+  if (!isNonEmptyString(entry_id)) return badRequest("entry_id is required");
+  if (!isPhotoUploadList(photos) || photos.length === 0) {
+    return badRequest(`photos must be 1 to ${MAX_PHOTOS_PER_ENTRY} compressed JPEG photos`);
+  }
+
+  return NextResponse.json(await serverBackend.addMileagePhotos(tech_name, entry_id, photos, idempotencyKey));
+}
@@ -0,0 +1,49 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { daysBetween, todayKey } from "@/lib/businessTime";
+import { buildTimesheetReport, reportPeriodError } from "@/lib/report";
+import type { ReportResponse } from "@/lib/reportApi";
+import { serverBackend } from "@/lib/server/backend";
+import { COMPANY_NAME } from "@/lib/server/config";
+import { authorizeTechOrManager, badRequest, isDateKey } from "@/lib/server/http";
+import { reportToPdf } from "@/lib/server/reportPdf";
+
+// GET /api/report?tech_name=...&start=YYYY-MM-DD&end=YYYY-MM-DD&format=json|pdf
+// Techs get their own timesheet report; managers can get anyone's.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const techName = params.get("tech_name");
+  const start = params.get("start");
+  const end = params.get("end");
+  const format = params.get("format") ?? "json";
+  if (!techName) return badRequest("tech_name is required");
+
+  const authError = authorizeTechOrManager(request, techName);
+  if (authError) return authError;
+
+  if (!isDateKey(start) || !isDateKey(end)) return badRequest("start and end must be YYYY-MM-DD");
+  const periodError = reportPeriodError(start, end);
+  if (periodError) return badRequest(periodError);
+  if (format !== "json" && format !== "pdf") return badRequest("format must be json or pdf");
+
+  // History is fetched as "the last N days", so reach back to the period start
+  const history = await serverBackend.fetchHistory(techName, Math.max(daysBetween(start, todayKey()) + 1, 1));
+  if (history.error) {
+    const response: ReportResponse = { success: false, error: history.error };
+    return NextResponse.json(response, { status: 502 });
+  }
+
+  const report = buildTimesheetReport(techName, history, start, end);
+
+  if (format === "pdf") {
+    const fileName = `timesheet_${techName.replace(/[^A-Za-z0-9]+/g, "_")}_${start}_${end}.pdf`;
+    return new NextResponse(reportToPdf(report, COMPANY_NAME), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  }
+
+  const response: ReportResponse = { success: true, report, company_name: COMPANY_NAME };
+  return NextResponse.json(response);
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { serverBackend } from "@/lib/server/backend";
+
+export async function GET() {
+  const sites = await serverBackend.fetchSites();
+  return NextResponse.json({ sites });
+}
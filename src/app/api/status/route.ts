@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { authorizeTech, badRequest } from "@/lib/server/http";
+import { serverBackend } from "@/lib/server/backend";
+
+export async function GET(request: NextRequest) {
+  const techName = request.nextUrl.searchParams.get("tech_name");
+  if (!techName) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, techName);
+  if (authError) return authError;
+
+  // 502 keeps an unusable answer out of the offline cache
+  const status = await serverBackend.checkStatus(techName);
+  return NextResponse.json(status, { status: status.error ? 502 : 200 });
+}
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { serverBackend } from "@/lib/server/backend";
+import { authorizeTech } from "@/lib/server/http";
+
+// Anyone can open the sign-in picker, so the list is names only. A signed-in
+// tech reads their own mileage settings with tech_name; pay rates stay behind
+// the manager routes.
+export async function GET(request: NextRequest) {
+  const techName = request.nextUrl.searchParams.get("tech_name");
+  if (!techName) {
+    const { technicians, error } = await serverBackend.fetchTechnicians();
+    return NextResponse.json({ technicians: technicians.map(({ name }) => ({ name })), error });
+  }
+
+  const authError = authorizeTech(request, techName);
+  if (authError) return authError;
+
+  const technician = await serverBackend.fetchTechnician(techName);
+  return NextResponse.json({
+    technician: technician && {
+      name: technician.name,
+      fixed_route_miles: technician.fixed_route_miles,
+      mileage_mode: technician.mileage_mode,
+      vehicle_id: technician.vehicle_id,
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import {
+  authorizeTech,
+  badRequest,
+  checkIdempotencyKey,
+  isDateKey,
+  isNonEmptyString,
+  readIdempotencyKey,
+  readJsonBody,
+} from "@/lib/server/http";
+import { serverBackend } from "@/lib/server/backend";
+import { checkSubmission } from "@/lib/server/timesheets";
+import { isSubmittableWeek, TIMESHEET_ATTESTATION } from "@/lib/timesheets";
+
+export async function POST(request: Request) {
+  const body = await readJsonBody(request);
+  if (!body) return badRequest("Invalid JSON body");
+
+  const { tech_name, week_start, hours, miles, attestation } = body;
+  if (!isNonEmptyString(tech_name)) return badRequest("tech_name is required");
+
+  const authError = authorizeTech(request, tech_name);
+  if (authError) return authError;
+
+  const keyError = checkIdempotencyKey(request);
+  if (keyError) return keyError;
+  const idempotencyKey = readIdempotencyKey(request);
+
+  if (!isDateKey(week_start) || !isSubmittableWeek(week_start)) {
+    return badRequest("week_start must be the Sunday of a week that has ended");
+  }
+  if (typeof hours !== "number" || !Number.isFinite(hours) || hours < 0) {
+    return badRequest("hours must be a non-negative number");
+  }
+  if (typeof miles !== "number" || !Number.isFinite(miles) || miles < 0) {
+    return badRequest("miles must be a non-negative number");
+  }
+  if (attestation !== TIMESHEET_ATTESTATION) return badRequest("attestation must be the current statement");
+
+  const submission = { week_start, hours, miles, attestation };
+  const submissionError = await checkSubmission(tech_name, submission);
+  if (submissionError) return submissionError;
+
+  return NextResponse.json(await serverBackend.submitTimesheet(tech_name, submission, idempotencyKey));
+}
@@ -0,0 +1,596 @@
+"use client";
+
+import Link from "next/link";
+import { useState, useEffect, useSyncExternalStore } from "react";
+import PayrollExport from "@/components/PayrollExport";
+import PhotoThumbnails from "@/components/PhotoThumbnails";
+import PinEntry from "@/components/PinEntry";
+import { WeekStatusBadge } from "@/components/WeekReview";
+import {
+  reviewTimesheet,
+  type PunchLocation,
+  type TimeEntry,
+  type Timesheet,
+  type TimesheetDecision,
+} from "@/lib/api";
+import { breakMinutes } from "@/lib/breaks";
+import { addDays, formatDateKey, todayKey, weekStartKey } from "@/lib/businessTime";
+import { formatTime, getDayName, getElapsedTime } from "@/lib/format";
+import { fetchTeamOverview, teamLoadError, type TeamMember } from "@/lib/managerApi";
+import { clearSession, getSession, signIn, subscribeToSession } from "@/lib/session";
+import { getShiftFlags, isSuspicious, SHIFT_FLAG_LABELS, type ShiftFlag } from "@/lib/shiftChecks";
+import { timesheetFor, weekTotals } from "@/lib/timesheets";
+
+// Matches the days of history the overview loads
+const OVERVIEW_DAYS = 14;
+
+function subscribeToNothing(): () => void {
+  return () => {};
+}
+
+function flaggedEntries(member: TeamMember): { entry: TimeEntry; flags: ShiftFlag[] }[] {
+  return member.history.time_entries
+    .map((entry) => ({ entry, flags: getShiftFlags(entry) }))
+    .filter(({ flags }) => flags.includes("open") || isSuspicious(flags));
+}
+
+// Every week the loaded history reaches into, newest first
+function overviewWeeks(member: TeamMember): { timesheet: Timesheet; hours: number; miles: number }[] {
+  const thisWeek = weekStartKey(todayKey());
+  const weeks: string[] = [];
+  for (let week = thisWeek; week >= weekStartKey(addDays(todayKey(), -OVERVIEW_DAYS)); week = addDays(week, -7)) {
+    weeks.push(week);
+  }
+  return weeks.map((week) => ({
+    timesheet: timesheetFor(member.history.timesheets, week),
+    ...weekTotals(
+      week,
+      member.history.time_entries.map((entry) => ({ date: entry.date, hours: entry.hours_worked })),
+      member.history.mileage_entries
+    ),
+  }));
+}
+
+function awaitingApproval(member: TeamMember): number {
+  return (member.history.timesheets ?? []).filter((timesheet) => timesheet.status === "submitted").length;
+}
+
+interface TimesheetRowProps {
+  timesheet: Timesheet;
+  hours: number;
+  miles: number;
+  isSaving: boolean;
+  onReview: (decision: TimesheetDecision, reason: string) => void;
+}
+
+function TimesheetRow({ timesheet, hours, miles, isSaving, onReview }: TimesheetRowProps) {
+  const [isReopening, setIsReopening] = useState(false);
+  const [reason, setReason] = useState("");
+  // Anything that reached the backend after the week went in shows up here
+  const changed =
+    timesheet.status !== "draft" &&
+    timesheet.hours !== undefined &&
+    (timesheet.hours !== hours || timesheet.miles !== miles);
+
+  return (
+    <div className="rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium text-gray-900">
+            Week of {formatDateKey(timesheet.week_start, { month: "short", day: "numeric" })}
+            <span className="ml-2">
+              <WeekStatusBadge status={timesheet.status} />
+            </span>
+          </p>
+          {timesheet.status === "approved" && timesheet.approved_by && (
+            <p className="text-xs text-gray-500">Approved by {timesheet.approved_by}</p>
+          )}
+          {timesheet.status === "draft" && timesheet.reopened_by && (
+            <p className="text-xs text-amber-700">
+              Reopened by {timesheet.reopened_by}: {timesheet.reopen_reason}
+            </p>
+          )}
+          {changed && (
+            <p className="text-xs text-amber-700">
+              Submitted as {timesheet.hours}h · {timesheet.miles} mi; changed since
+            </p>
+          )}
+        </div>
+        <div className="text-right">
+          <p className="text-lg font-semibold text-gray-900">{hours}h</p>
+          <p className="text-xs text-gray-500">{miles} mi</p>
+        </div>
+      </div>
+
+      {timesheet.status !== "draft" && !isReopening && (
+        <div className="mt-3 flex gap-2">
+          {timesheet.status === "submitted" && (
+            <button
+              onClick={() => onReview("approve", "")}
+              disabled={isSaving}
+              className="flex-1 rounded-lg bg-green-600 py-2 text-sm font-semibold text-white active:bg-green-700 disabled:opacity-50"
+            >
+              Approve
+            </button>
+          )}
+          <button
+            onClick={() => setIsReopening(true)}
+            disabled={isSaving}
+            className="flex-1 rounded-lg py-2 text-sm font-medium text-gray-700 ring-1 ring-gray-300 active:bg-gray-50 disabled:opacity-50"
+          >
+            Reopen
+          </button>
+        </div>
+      )}
+
+      {isReopening && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            onReview("reopen", reason.trim());
+          }}
+          className="mt-3 space-y-2"
+        >
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="What needs fixing?"
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+            required
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving || !reason.trim()}
+              className="flex-1 rounded-lg bg-amber-500 py-2 text-sm font-semibold text-white active:bg-amber-600 disabled:opacity-50"
+            >
+              Reopen week
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsReopening(false)}
+              className="flex-1 rounded-lg py-2 text-sm font-medium text-gray-500"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+function describeLocation(label: string, location: PunchLocation | null | undefined): string {
+  if (!location) return `${label}: no GPS`;
+  const accuracy = `±${location.accuracy_m} m`;
+  if (location.geofence === "inside") return `${label}: at ${location.geofence_name} (${accuracy})`;
+  if (location.geofence === "outside") return `${label}: off-site, nearest ${location.geofence_name} (${accuracy})`;
+  if (location.geofence_name) return `${label}: too rough to tell if at ${location.geofence_name} (${accuracy})`;
+  return `${label}: ${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)} (${accuracy})`;
+}
+
+function FlagBadges({ flags }: { flags: ShiftFlag[] }) {
+  return (
+    <>
+      {flags.map((flag) => (
+        <span
+          key={flag}
+          className={`ml-2 rounded-full px-2 py-0.5 text-xs font-medium ${
+            flag === "edited" ? "bg-gray-100 text-gray-600" : "bg-amber-100 text-amber-700"
+          }`}
+        >
+          {SHIFT_FLAG_LABELS[flag]}
+        </span>
+      ))}
+    </>
+  );
+}
+
+export default function ManagerDashboard() {
+  const session = useSyncExternalStore(subscribeToSession, getSession, () => null);
+  const isHydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+  const isManager = session?.role === "manager";
+
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [isLoadingTeam, setIsLoadingTeam] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedTech, setSelectedTech] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [isSavingReview, setIsSavingReview] = useState(false);
+
+  // Sign-in state
+  const [managerName, setManagerName] = useState("");
+  const [isEnteringPin, setIsEnteringPin] = useState(false);
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  // Load every technician's status and history
+  useEffect(() => {
+    if (!isManager) return;
+
+    async function loadTeam() {
+      const overview = await fetchTeamOverview(OVERVIEW_DAYS);
+      setTeam(overview.team);
+      setLoadError(overview.success ? teamLoadError(overview.team) : overview.error || "Failed to load team");
+      setIsLoadingTeam(false);
+    }
+
+    loadTeam();
+  }, [isManager, refreshKey]);
+
+  const refresh = () => {
+    setIsLoadingTeam(true);
+    setRefreshKey((prev) => prev + 1);
+  };
+
+  const handleReview = async (techName: string, weekStart: string, decision: TimesheetDecision, reason: string) => {
+    if (!session || isSavingReview) return;
+    setIsSavingReview(true);
+    setReviewError(null);
+
+    const response = await reviewTimesheet(techName, weekStart, decision, session.tech_name, reason);
+
+    setIsSavingReview(false);
+    if (response.success) {
+      refresh();
+    } else {
+      setReviewError(response.error || `Failed to ${decision} week`);
+    }
+  };
+
+  const handleSignIn = async (pin: string): Promise<boolean> => {
+    if (isSigningIn) return false;
+    setIsSigningIn(true);
+
+    const result = await signIn(managerName.trim(), pin);
+
+    setIsSigningIn(false);
+    if (!result.success) {
+      setSignInError(result.error);
+      return false;
+    }
+
+    setIsEnteringPin(false);
+    setSignInError(null);
+    return true;
+  };
+
+  // Loading state
+  if (!isHydrated) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-green-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  // Signed in, but not as a manager
+  if (session && !isManager) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center px-6 text-center">
+        <p className="mb-2 text-lg text-gray-900">Signed in as {session.tech_name}</p>
+        <p className="mb-6 text-gray-600">The team dashboard is for managers only.</p>
+        <button onClick={clearSession} className="text-sm text-green-600">
+          Sign in as someone else
+        </button>
+      </div>
+    );
+  }
+
+  // Manager sign-in
+  if (!session) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center px-6">
+        {isEnteringPin ? (
+          <PinEntry
+            techName={managerName.trim()}
+            error={signInError}
+            isSubmitting={isSigningIn}
+            onSubmit={handleSignIn}
+            onCancel={() => setIsEnteringPin(false)}
+          />
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setSignInError(null);
+              setIsEnteringPin(true);
+            }}
+            className="w-full max-w-sm"
+          >
+            <h1 className="mb-2 text-center text-2xl font-bold text-gray-900">Team Dashboard</h1>
+            <p className="mb-8 text-center text-lg text-gray-600">Manager sign in</p>
+            <input
+              type="text"
+              value={managerName}
+              onChange={(e) => setManagerName(e.target.value)}
+              placeholder="Your name"
+              className="mb-4 w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+              required
+            />
+            <button
+              type="submit"
+              className="w-full rounded-xl bg-green-600 py-4 text-lg font-semibold text-white transition-all active:scale-[0.98] active:bg-green-700"
+            >
+              Continue
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  const selectedMember = team.find((member) => member.technician.name === selectedTech);
+
+  // Drill-down into one technician
+  if (selectedMember) {
+    const entries = [...selectedMember.history.time_entries].sort((a, b) =>
+      b.clock_in.localeCompare(a.clock_in)
+    );
+    const mileage = [...selectedMember.history.mileage_entries].sort((a, b) =>
+      b.date.localeCompare(a.date)
+    );
+
+    return (
+      <div className="mx-auto flex min-h-screen max-w-3xl flex-col px-6 py-8">
+        <div className="mb-6 flex items-center">
+          <button
+            onClick={() => {
+              setSelectedTech(null);
+              setReviewError(null);
+            }}
+            className="mr-4 text-gray-600"
+          >
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">{selectedMember.technician.name}</h1>
+          <Link
+            href={`/report?tech_name=${encodeURIComponent(selectedMember.technician.name)}`}
+            className="ml-4 text-sm text-green-600"
+          >
+            Timesheet report
+          </Link>
+          <span className="ml-auto text-2xl font-bold text-gray-900">
+            {selectedMember.history.week_total_hours}h
+          </span>
+        </div>
+
+        {reviewError && (
+          <div className="mb-4 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700">{reviewError}</div>
+        )}
+
+        <div className="space-y-6">
+          <div>
+            <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500">
+              Timesheets
+            </h2>
+            <div className="space-y-2">
+              {overviewWeeks(selectedMember).map(({ timesheet, hours, miles }) => (
+                <TimesheetRow
+                  key={`${timesheet.week_start}_${timesheet.status}`}
+                  timesheet={timesheet}
+                  hours={hours}
+                  miles={miles}
+                  isSaving={isSavingReview}
+                  onReview={(decision, reason) =>
+                    handleReview(selectedMember.technician.name, timesheet.week_start, decision, reason)
+                  }
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500">
+              Time Entries
+            </h2>
+            {entries.length === 0 ? (
+              <p className="text-gray-500">No time entries</p>
+            ) : (
+              <div className="space-y-2">
+                {entries.map((entry) => (
+                  <div
+                    key={entry.shift_id}
+                    className="rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {getDayName(entry.date)}, {entry.date}
+                          <FlagBadges flags={getShiftFlags(entry)} />
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {formatTime(new Date(entry.clock_in))}
+                          {entry.clock_out
+                            ? ` - ${formatTime(new Date(entry.clock_out))}`
+                            : " - In progress"}
+                        </p>
+                        {(entry.clock_in_location !== undefined || entry.clock_out_location !== undefined) && (
+                          <p className="text-xs text-gray-500">
+                            {describeLocation("In", entry.clock_in_location)}
+                            {entry.clock_out && ` · ${describeLocation("Out", entry.clock_out_location)}`}
+                          </p>
+                        )}
+                        {entry.breaks && entry.breaks.length > 0 && (
+                          <p className="text-xs text-gray-500">
+                            {breakMinutes(entry.breaks, entry.clock_in, entry.clock_out ?? new Date())}m unpaid break
+                          </p>
+                        )}
+                        {entry.edited && entry.original_clock_in && (
+                          <p className="text-xs text-gray-400 line-through">
+                            {formatTime(new Date(entry.original_clock_in))}
+                            {entry.original_clock_out
+                              ? ` - ${formatTime(new Date(entry.original_clock_out))}`
+                              : " - no clock out"}
+                          </p>
+                        )}
+                      </div>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {entry.hours_worked !== null ? `${entry.hours_worked}h` : "--"}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500">
+              Mileage Entries
+            </h2>
+            {mileage.length === 0 ? (
+              <p className="text-gray-500">No mileage entries</p>
+            ) : (
+              <div className="space-y-2">
+                {mileage.map((entry) => (
+                  <div
+                    key={entry.entry_id}
+                    className="flex items-center justify-between rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200"
+                  >
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {entry.description}
+                        {entry.edited && (
+                          <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                            Edited
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500">{entry.date}</p>
+                      {entry.edited && entry.original_miles !== undefined && (
+                        <p className="text-xs text-gray-400 line-through">
+                          {entry.original_description} · {entry.original_date} · {entry.original_miles} mi
+                        </p>
+                      )}
+                      <PhotoThumbnails techName={selectedMember.technician.name} photos={entry.photos ?? []} />
+                    </div>
+                    <p className="text-lg font-semibold text-gray-900">{entry.miles} mi</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Team overview
+  const clockedIn = team.filter((member) => member.status.clocked_in);
+  const needsAttention = team.flatMap((member) =>
+    flaggedEntries(member).map((flagged) => ({ member, ...flagged }))
+  );
+
+  return (
+    <div className="mx-auto flex min-h-screen max-w-3xl flex-col px-6 py-8">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold text-gray-900">Team Dashboard</h1>
+          <p className="text-sm text-gray-500">
+            {clockedIn.length} of {team.length} on the clock
+          </p>
+        </div>
+        <button onClick={refresh} disabled={isLoadingTeam} className="text-green-600 disabled:opacity-50">
+          <svg
+            className={`h-6 w-6 ${isLoadingTeam ? "animate-spin" : ""}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </button>
+      </div>
+
+      {loadError && (
+        <div className="mb-4 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700">{loadError}</div>
+      )}
+
+      <div className="space-y-6">
+        {/* Everyone's status and week */}
+        <div className="space-y-2">
+          {team.map((member) => (
+            <button
+              key={member.technician.name}
+              onClick={() => setSelectedTech(member.technician.name)}
+              className="flex w-full items-center justify-between rounded-xl bg-white p-4 text-left shadow-sm ring-1 ring-gray-200 transition-all active:bg-gray-50"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <div
+                    className={`h-3 w-3 rounded-full ${
+                      member.status.clocked_in ? "bg-green-500" : "bg-gray-300"
+                    }`}
+                  ></div>
+                  <span className="font-medium text-gray-900">{member.technician.name}</span>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  {member.status.clocked_in && member.status.clock_in_time
+                    ? `In since ${formatTime(new Date(member.status.clock_in_time))} (${getElapsedTime(member.status.clock_in_time)})`
+                    : "Off the clock"}
+                  {member.status.on_break && member.status.break_start_time && (
+                    <span className="text-amber-600">
+                      {" "}· On break since {formatTime(new Date(member.status.break_start_time))}
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-lg font-semibold text-gray-900">{member.history.week_total_hours}h</p>
+                <p className="text-xs text-gray-500">this week</p>
+                {awaitingApproval(member) > 0 && (
+                  <p className="text-xs font-medium text-blue-700">
+                    {awaitingApproval(member)} week{awaitingApproval(member) > 1 ? "s" : ""} to approve
+                  </p>
+                )}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {/* Open and suspicious shifts */}
+        <div>
+          <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500">
+            Needs Attention
+          </h2>
+          {needsAttention.length === 0 ? (
+            <p className="text-gray-500">Nothing flagged</p>
+          ) : (
+            <div className="space-y-2">
+              {needsAttention.map(({ member, entry, flags }) => (
+                <button
+                  key={`${member.technician.name}_${entry.shift_id}`}
+                  onClick={() => setSelectedTech(member.technician.name)}
+                  className="w-full rounded-lg bg-white p-4 text-left shadow-sm ring-1 ring-amber-200 transition-all active:bg-gray-50"
+                >
+                  <p className="font-medium text-gray-900">
+                    {member.technician.name} · {getDayName(entry.date)}, {entry.date}
+                    <FlagBadges flags={flags} />
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {formatTime(new Date(entry.clock_in))}
+                    {entry.clock_out ? ` - ${formatTime(new Date(entry.clock_out))}` : " - In progress"}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Pay period export for the bookkeeper */}
+        <PayrollExport />
+      </div>
+
+      <div className="mt-auto pt-8">
+        <button onClick={clearSession} className="w-full text-center text-sm text-gray-400">
+          Signed in as {session.tech_name}. Sign out
+        </button>
+      </div>
+    </div>
+  );
+}
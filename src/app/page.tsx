@@ -1,22 +1,129 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useState, useEffect, useCallback, useSyncExternalStore } from "react";
 import {
+  fetchTechnician,
   fetchTechnicians,
+  fetchSites,
   checkStatus,
   clockIn,
   clockOut,
+  switchSite,
+  startBreak,
+  endBreak,
   submitMileage,
   fetchHistory,
+  editEntry,
+  editMileage,
+  deleteMileage,
+  addMileagePhotos,
+  lastOdometerReading,
+  recordOdometer,
+  submitTimesheet,
+  type BreakSegment,
+  type OdometerReading,
+  type Photo,
+  type PhotoUpload,
+  type Site,
+  type SiteSegment,
+  type StatusResponse,
   type Technician,
+  type MutationResponse,
   type TimeEntry as APITimeEntry,
+  type Timesheet,
   type MileageEntry as APIMileageEntry,
 } from "@/lib/api";
+import EditEntrySheet, { type EditEntrySubmission } from "@/components/EditEntrySheet";
+import EditMileageSheet, { type EditMileageSubmission } from "@/components/EditMileageSheet";
+import HistoryCalendar from "@/components/HistoryCalendar";
+import OdometerSheet, { type OdometerSubmission } from "@/components/OdometerSheet";
+import PhotoPicker from "@/components/PhotoPicker";
+import PhotoThumbnails from "@/components/PhotoThumbnails";
+import PinEntry from "@/components/PinEntry";
+import ReminderSettingsForm from "@/components/ReminderSettingsForm";
+import StatusMismatchSheet from "@/components/StatusMismatchSheet";
+import WeekReview, { WeekStatusBadge, type ReviewDay } from "@/components/WeekReview";
+import {
+  awaitsSync,
+  discardAction,
+  listPendingActions,
+  retryAction,
+  sendOrQueue,
+  subscribeToQueue,
+  syncPendingActions,
+  type QueuedAction,
+  type SyncResult,
+} from "@/lib/offlineQueue";
+import { breakMinutes, closeBreaks, workedHours } from "@/lib/breaks";
+import { addDays, dateKeyFor, formatBusinessDate, formatDateKey, todayKey, weekStartKey } from "@/lib/businessTime";
+import { formatMoney, formatTime, getDayName, getElapsedTime } from "@/lib/format";
+import { getPunchLocation } from "@/lib/geolocation";
+import {
+  calendarWeeks,
+  DEFAULT_HISTORY_DAYS,
+  groupByWeek,
+  HISTORY_PAGE_DAYS,
+  HISTORY_RANGE_LABELS,
+  historyDaysFor,
+  historyRangeFor,
+  historySince,
+  isInRange,
+  monthKeyFor,
+  type HistoryRange,
+  type HistoryRangePreset,
+} from "@/lib/historyRange";
+import { newIdempotencyKey } from "@/lib/idempotency";
+import { MAX_PHOTOS_PER_ENTRY, preparePhoto, toPhoto } from "@/lib/photos";
+import { computeReimbursement } from "@/lib/reimbursement";
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  hasReminders,
+  loadReminderSettings,
+  notificationsSupported,
+  planReminders,
+  requestNotificationPermission,
+  saveReminderSettings,
+  scheduleReminders,
+  showDueReminders,
+  type ReminderSettings,
+} from "@/lib/reminders";
+import { newShiftId } from "@/lib/shiftId";
+import { isForgottenClockOut, isOffSite } from "@/lib/shiftChecks";
+import { closeSiteSegments, siteHours, switchSegments, type SiteHours } from "@/lib/siteHours";
+import { clearSession, getSession, signIn, subscribeToSession } from "@/lib/session";
+import {
+  isSubmittableWeek,
+  isWeekLocked,
+  lockedWeekForDays,
+  TIMESHEET_ATTESTATION,
+  timesheetFor,
+  weekDateKeys,
+  weekTotals,
+} from "@/lib/timesheets";
 
 // Types
 interface ClockState {
   isClockedIn: boolean;
   clockInTime: string | null;
+  breakStartTime: string | null;
+  siteId: string | null;
+}
+
+const CLOCKED_OUT: ClockState = { isClockedIn: false, clockInTime: null, breakStartTime: null, siteId: null };
+
+// How often an open tab asks whether another device punched
+const STATUS_CHECK_INTERVAL_MS = 60_000;
+
+// How often an open tab replays whatever is still queued
+const QUEUE_SYNC_INTERVAL_MS = 60_000;
+
+// The server's clock state as of a re-check, next to what was on screen when it
+// started. A punch here since then replaces clockState, which retires the check.
+interface StatusCheck {
+  shown: ClockState;
+  latest: ClockState;
+  dismissed: boolean;
 }
 
 interface TimeEntry {
@@ -25,6 +132,12 @@ interface TimeEntry {
   clockIn: string;
   clockOut: string | null;
   hoursWorked: number | null;
+  breaks: BreakSegment[];
+  siteSegments: SiteSegment[];
+  offSite: boolean;
+  edited: boolean;
+  originalClockIn?: string;
+  originalClockOut?: string | null;
 }
 
 interface MileageEntry {
@@ -32,153 +145,468 @@ interface MileageEntry {
   date: string;
   miles: number;
   description: string;
+  photos: Photo[];
+  // Still in the offline queue, so there's no entry to add photos to yet
+  pending?: boolean;
+  // Odometer trips take their miles from the readings, so only those can't be corrected
+  odometerTrip?: boolean;
+  // Already taken off the miles, so reimbursement mustn't take the commute again
+  commuteDeductedMiles?: number;
+  edited?: boolean;
+  originalDate?: string;
+  originalMiles?: number;
+  originalDescription?: string;
 }
 
-type Screen = "home" | "mileage" | "history";
+type Screen = "home" | "mileage" | "history" | "settings" | "review";
 
 // Helper functions
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    hour12: true,
+
+// Tacked onto a confirmation when the change only got through on a retry
+function retryNote(response: MutationResponse): string {
+  return response.delivery === "succeeded_after_retry" ? " (after a retry)" : "";
+}
+
+function getWeekTotal(entries: TimeEntry[]): number {
+  const startOfWeek = weekStartKey(todayKey());
+
+  return entries
+    .filter((entry) => entry.date >= startOfWeek && entry.hoursWorked !== null)
+    .reduce((sum, entry) => sum + (entry.hoursWorked || 0), 0);
+}
+
+// One summary per date, however many shifts it has. Hours are null until one closes.
+function groupHoursByDate(entries: TimeEntry[]): { date: string; hoursWorked: number | null; shifts: number }[] {
+  const days = new Map<string, { date: string; hoursWorked: number | null; shifts: number }>();
+  for (const entry of entries) {
+    const day = days.get(entry.date) ?? { date: entry.date, hoursWorked: null, shifts: 0 };
+    day.shifts++;
+    if (entry.hoursWorked !== null) {
+      day.hoursWorked = (day.hoursWorked ?? 0) + entry.hoursWorked;
+    }
+    days.set(entry.date, day);
+  }
+  return [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function toLocalTimeEntry(entry: APITimeEntry): TimeEntry {
+  return {
+    shiftId: entry.shift_id,
+    date: entry.date,
+    clockIn: entry.clock_in,
+    clockOut: entry.clock_out,
+    hoursWorked: entry.hours_worked,
+    breaks: entry.breaks ?? [],
+    siteSegments: entry.site_segments ?? [],
+    offSite: isOffSite(entry),
+    edited: entry.edited,
+    originalClockIn: entry.original_clock_in,
+    originalClockOut: entry.original_clock_out,
+  };
+}
+
+function toLocalMileageEntry(entry: APIMileageEntry): MileageEntry {
+  return {
+    entryId: entry.entry_id,
+    date: entry.date,
+    miles: entry.miles,
+    description: entry.description,
+    photos: entry.photos ?? [],
+    odometerTrip: !!entry.vehicle_id,
+    commuteDeductedMiles: entry.commute_deducted_miles,
+    edited: entry.edited,
+    originalDate: entry.original_date,
+    originalMiles: entry.original_miles,
+    originalDescription: entry.original_description,
+  };
+}
+
+function subscribeToOnlineStatus(callback: () => void): () => void {
+  window.addEventListener("online", callback);
+  window.addEventListener("offline", callback);
+  return () => {
+    window.removeEventListener("online", callback);
+    window.removeEventListener("offline", callback);
+  };
+}
+
+// Lets render tell the server/hydration pass apart from the client
+function subscribeToNothing(): () => void {
+  return () => {};
+}
+
+// Oldest of the cache timestamps, i.e. how stale the screen is overall
+function oldestCachedAt(...timestamps: (string | undefined)[]): string | null {
+  const present = timestamps.filter((t): t is string => !!t).sort();
+  return present[0] ?? null;
+}
+
+function clockStateFromStatus(status: StatusResponse): ClockState {
+  if (!status.clocked_in || !status.clock_in_time) return CLOCKED_OUT;
+  return {
+    isClockedIn: true,
+    clockInTime: status.clock_in_time,
+    breakStartTime: status.on_break ? status.break_start_time ?? null : null,
+    siteId: status.site_id ?? null,
+  };
+}
+
+// Break and clock-in times are compared as instants; Make.com may format them differently
+function sameClockState(a: ClockState, b: ClockState): boolean {
+  if (!a.isClockedIn || !b.isClockedIn) return a.isClockedIn === b.isClockedIn;
+  return (
+    new Date(a.clockInTime!).getTime() === new Date(b.clockInTime!).getTime() &&
+    !!a.breakStartTime === !!b.breakStartTime &&
+    a.siteId === b.siteId
+  );
+}
+
+function describeClockState(state: ClockState, sites: Site[]): string {
+  if (!state.isClockedIn || !state.clockInTime) return "Clocked out";
+  const parts = [`Clocked in at ${formatTime(new Date(state.clockInTime))}`];
+  if (state.siteId) parts.push(siteLabel(sites, state.siteId));
+  if (state.breakStartTime) parts.push("on break");
+  return parts.join(" · ");
+}
+
+// Punches still waiting in the offline queue are newer than what the server knows
+function applyQueuedPunch(state: ClockState, action: QueuedAction): ClockState {
+  switch (action.type) {
+    case "clock_in":
+      return { isClockedIn: true, clockInTime: action.timestamp, breakStartTime: null, siteId: action.site_id ?? null };
+    case "clock_out":
+      return CLOCKED_OUT;
+    case "switch_site":
+      return { ...state, siteId: action.site_id };
+    case "break_start":
+      return { ...state, breakStartTime: action.timestamp };
+    case "break_end":
+      return { ...state, breakStartTime: null };
+    case "mileage":
+    case "photos":
+    case "odometer":
+      return state;
+  }
+}
+
+function entrySiteHours(entry: TimeEntry): SiteHours[] {
+  return siteHours({
+    shift_id: entry.shiftId,
+    date: entry.date,
+    clock_in: entry.clockIn,
+    clock_out: entry.clockOut,
+    hours_worked: entry.hoursWorked,
+    breaks: entry.breaks,
+    site_segments: entry.siteSegments,
+    edited: entry.edited,
   });
 }
 
-function formatDate(date: Date): string {
-  return date.toISOString().split("T")[0];
+function siteLabel(sites: Site[], siteId: string | null): string {
+  if (!siteId) return "No site";
+  return sites.find((site) => site.site_id === siteId)?.name ?? siteId;
 }
 
-function getElapsedTime(clockInTime: string): string {
-  const start = new Date(clockInTime);
-  const now = new Date();
-  const diffMs = now.getTime() - start.getTime();
-  const hours = Math.floor(diffMs / (1000 * 60 * 60));
-  const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-  if (hours > 0) {
-    return `${hours}h ${minutes}m`;
+// Hours per client across entries; untagged time is grouped as "No client"
+function hoursByClient(entries: TimeEntry[], sites: Site[]): { client: string; hours: number }[] {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    for (const { site_id, hours } of entrySiteHours(entry)) {
+      const client = sites.find((site) => site.site_id === site_id)?.client ?? "No client";
+      totals.set(client, (totals.get(client) ?? 0) + hours);
+    }
   }
-  return `${minutes}m`;
+  return [...totals.entries()]
+    .map(([client, hours]) => ({ client, hours: Math.round(hours * 100) / 100 }))
+    .sort((a, b) => b.hours - a.hours);
 }
 
-function calculateHoursWorked(clockIn: string, clockOut: string): number {
-  const start = new Date(clockIn);
-  const end = new Date(clockOut);
-  const diffHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60);
-  return Math.round(diffHours * 4) / 4;
+function totalsForWeek(weekStart: string, timeEntries: TimeEntry[], mileageEntries: MileageEntry[]) {
+  return weekTotals(
+    weekStart,
+    timeEntries.map((entry) => ({ date: entry.date, hours: entry.hoursWorked })),
+    mileageEntries
+  );
 }
 
-function getWeekTotal(entries: TimeEntry[]): number {
-  const now = new Date();
-  const startOfWeek = new Date(now);
-  startOfWeek.setDate(now.getDate() - now.getDay());
-  startOfWeek.setHours(0, 0, 0, 0);
+function reviewDays(weekStart: string, timeEntries: TimeEntry[], mileageEntries: MileageEntry[]): ReviewDay[] {
+  return weekDateKeys(weekStart).map((date) => ({
+    date,
+    shifts: timeEntries
+      .filter((entry) => entry.date === date)
+      .sort((a, b) => a.clockIn.localeCompare(b.clockIn)),
+    mileage: mileageEntries.filter((entry) => entry.date === date),
+  }));
+}
 
-  return entries
-    .filter((entry) => {
-      const entryDate = new Date(entry.date);
-      return entryDate >= startOfWeek && entry.hoursWorked !== null;
-    })
-    .reduce((sum, entry) => sum + (entry.hoursWorked || 0), 0);
+function formatBreakTotal(entry: TimeEntry): string {
+  return `${breakMinutes(entry.breaks, entry.clockIn, entry.clockOut ?? new Date())}m unpaid`;
+}
+
+function describeRejections(count: number): string {
+  return `${count === 1 ? "1 action was" : `${count} actions were`} refused. Open the pending list to retry or discard.`;
 }
 
-function getDayName(dateStr: string): string {
-  const date = new Date(dateStr + "T12:00:00");
-  return date.toLocaleDateString("en-US", { weekday: "short" });
+function describeQueuedAction(action: QueuedAction): string {
+  switch (action.type) {
+    case "clock_in":
+      return `Clock in at ${formatTime(new Date(action.timestamp))}`;
+    case "clock_out":
+      return `Clock out at ${formatTime(new Date(action.timestamp))}`;
+    case "switch_site":
+      return `Site change at ${formatTime(new Date(action.timestamp))}`;
+    case "break_start":
+      return `Break start at ${formatTime(new Date(action.timestamp))}`;
+    case "break_end":
+      return `Break end at ${formatTime(new Date(action.timestamp))}`;
+    case "mileage":
+      return `${action.miles} mi on ${action.date}`;
+    case "photos":
+      return `${action.photos.length} photo${action.photos.length === 1 ? "" : "s"} for a mileage entry`;
+    case "odometer":
+      return `Odometer ${action.reading.kind} reading ${action.reading.reading}`;
+  }
 }
 
 export default function Home() {
   // App state
   const [technicians, setTechnicians] = useState<Technician[]>([]);
-  const [currentUser, setCurrentUser] = useState<string | null>(null);
-  const [clockState, setClockState] = useState<ClockState>({
-    isClockedIn: false,
-    clockInTime: null,
-  });
+  // The signed-in tech's own mileage settings; the list above is names only
+  const [technician, setTechnician] = useState<Technician | null>(null);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [nextSiteId, setNextSiteId] = useState<string | null>(null);
+  const session = useSyncExternalStore(subscribeToSession, getSession, () => null);
+  const currentUser = session?.tech_name ?? null;
+  const isHydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+  const [clockState, setClockState] = useState<ClockState>(CLOCKED_OUT);
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [mileageEntries, setMileageEntries] = useState<MileageEntry[]>([]);
   const [weekTotalHours, setWeekTotalHours] = useState<number>(0);
   const [currentScreen, setCurrentScreen] = useState<Screen>("home");
-  const [isLoading, setIsLoading] = useState(true);
   const [isLoadingTechnicians, setIsLoadingTechnicians] = useState(true);
   const [showConfirmation, setShowConfirmation] = useState<string | null>(null);
   const [showError, setShowError] = useState<string | null>(null);
   const [isButtonDisabled, setIsButtonDisabled] = useState(false);
   const [elapsedTime, setElapsedTime] = useState<string>("");
-  const [pendingActions, setPendingActions] = useState<number>(0);
+  const [queuedActions, setQueuedActions] = useState<QueuedAction[]>([]);
+  const [showSyncDetails, setShowSyncDetails] = useState(false);
+  const [dataVersion, setDataVersion] = useState(0);
+  const [dataCachedAt, setDataCachedAt] = useState<string | null>(null);
+  const [statusCheck, setStatusCheck] = useState<StatusCheck | null>(null);
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [reviewWeekStart, setReviewWeekStart] = useState(() => weekStartKey(todayKey()));
+  const [isSubmittingWeek, setIsSubmittingWeek] = useState(false);
+
+  // History screen: how far back is fetched, and what's shown of it
+  const [historyDays, setHistoryDays] = useState(DEFAULT_HISTORY_DAYS);
+  const [loadedHistoryDays, setLoadedHistoryDays] = useState(DEFAULT_HISTORY_DAYS);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyRange, setHistoryRange] = useState<HistoryRange>(() => historyRangeFor("recent"));
+  const [calendarMonth, setCalendarMonth] = useState(() => monthKeyFor(todayKey()));
+  const isOnline = useSyncExternalStore(
+    subscribeToOnlineStatus,
+    () => navigator.onLine,
+    () => true
+  );
+
+  // Edit request state
+  const [editingEntry, setEditingEntry] = useState<TimeEntry | null>(null);
+  const [editingMileage, setEditingMileage] = useState<MileageEntry | null>(null);
+  // Open shift that missed its clock-out; has to be closed before anything else
+  const [forgottenShift, setForgottenShift] = useState<TimeEntry | null>(null);
+  const [isSubmittingEdit, setIsSubmittingEdit] = useState(false);
+
+  // Odometer prompt state, for techs in odometer mileage mode
+  const [odometerPrompt, setOdometerPrompt] = useState<{
+    kind: OdometerReading["kind"];
+    shiftId: string | null;
+    lastReading: OdometerReading | null;
+  } | null>(null);
+
+  // Reminder notification settings, kept per tech on this device
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
 
   // Mileage form state
-  const [mileageDate, setMileageDate] = useState(formatDate(new Date()));
+  const [mileageDate, setMileageDate] = useState(todayKey);
   const [mileageMiles, setMileageMiles] = useState("");
   const [mileageDescription, setMileageDescription] = useState("");
+  const [mileagePhotos, setMileagePhotos] = useState<PhotoUpload[]>([]);
   const [isSubmittingMileage, setIsSubmittingMileage] = useState(false);
 
-  // Load technicians on mount
+  // Load technicians and job sites on mount
   useEffect(() => {
     async function loadTechnicians() {
       setIsLoadingTechnicians(true);
-      const techs = await fetchTechnicians();
-      setTechnicians(techs);
+      const { technicians } = await fetchTechnicians();
+      setTechnicians(technicians);
       setIsLoadingTechnicians(false);
     }
     loadTechnicians();
+    fetchSites().then(setSites);
   }, []);
 
-  // Load user from localStorage on mount
-  useEffect(() => {
-    const savedUser = localStorage.getItem("ahp_current_user");
-    if (savedUser) {
-      setCurrentUser(savedUser);
+  // Sign-in state
+  const [selectedTech, setSelectedTech] = useState<string | null>(null);
+  const [signInError, setSignInError] = useState<string | null>(null);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  // Mirror the offline queue
+  useEffect(() => subscribeToQueue(setQueuedActions), []);
+
+  // Replay the signed-in tech's queued actions and reload what they changed
+  const syncQueue = useCallback(async (): Promise<SyncResult> => {
+    const result = await syncPendingActions();
+    if (result.synced > 0) {
+      setDataVersion((prev) => prev + 1);
+    }
+    if (result.rejected > 0) {
+      setShowError(describeRejections(result.rejected));
+      setTimeout(() => setShowError(null), 4000);
     }
-    setIsLoading(false);
+    return result;
   }, []);
 
+  // ...on sign-in, when we come back online or into view, and every minute, so
+  // nothing sits in the queue while the device has a connection
+  useEffect(() => {
+    if (!currentUser) return;
+
+    function syncIfOnline() {
+      if (navigator.onLine && document.visibilityState === "visible") syncQueue();
+    }
+
+    syncIfOnline();
+    window.addEventListener("online", syncIfOnline);
+    window.addEventListener("focus", syncIfOnline);
+    document.addEventListener("visibilitychange", syncIfOnline);
+    const interval = setInterval(syncIfOnline, QUEUE_SYNC_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", syncIfOnline);
+      window.removeEventListener("focus", syncIfOnline);
+      document.removeEventListener("visibilitychange", syncIfOnline);
+      clearInterval(interval);
+    };
+  }, [currentUser, syncQueue]);
+
   // Check status and fetch history when user is set
   useEffect(() => {
     if (!currentUser) return;
 
     async function loadUserData() {
-      // Check clock status
+      setReminderSettings(loadReminderSettings(currentUser!));
+      fetchTechnician(currentUser!).then(setTechnician);
+
+      // Check clock status, then replay any punches still queued offline
       const status = await checkStatus(currentUser!);
-      if (status.clocked_in && status.clock_in_time) {
-        setClockState({
-          isClockedIn: true,
-          clockInTime: status.clock_in_time,
-        });
-        setElapsedTime(getElapsedTime(status.clock_in_time));
-      } else {
-        setClockState({
-          isClockedIn: false,
-          clockInTime: null,
-        });
+      const queuedPunches = (await listPendingActions()).filter(
+        (action) => action.tech_name === currentUser && awaitsSync(action)
+      );
+      const loadedClockState = queuedPunches.reduce(applyQueuedPunch, clockStateFromStatus(status));
+
+      // Fetch history, as far back as the History screen has paged
+      const history = await fetchHistory(currentUser!, historyDays);
+      setIsLoadingHistory(false);
+
+      // A status or history the app couldn't read leaves what's on screen alone
+      const loadError = status.error ?? history.error;
+      if (loadError) {
+        setShowError(loadError);
+        setTimeout(() => setShowError(null), 4000);
       }
-
-      // Fetch history
-      const history = await fetchHistory(currentUser!);
+      if (!status.error) {
+        setClockState(loadedClockState);
+      }
+      if (history.error) return;
 
       // Convert API format to local format
-      const timeEntriesLocal: TimeEntry[] = history.time_entries.map((entry: APITimeEntry) => ({
-        shiftId: entry.shift_id,
-        date: entry.date,
-        clockIn: entry.clock_in,
-        clockOut: entry.clock_out,
-        hoursWorked: entry.hours_worked,
-      }));
+      const timeEntriesLocal = history.time_entries.map(toLocalTimeEntry);
+      const mileageEntriesLocal = history.mileage_entries.map(toLocalMileageEntry);
 
-      const mileageEntriesLocal: MileageEntry[] = history.mileage_entries.map((entry: APIMileageEntry) => ({
-        entryId: entry.entry_id,
-        date: entry.date,
-        miles: entry.miles,
-        description: entry.description,
-      }));
+      // Punches still queued mean the server's open shift isn't the whole story
+      const openEntry = timeEntriesLocal.find(
+        (entry) => entry.clockOut === null && entry.clockIn === loadedClockState.clockInTime
+      );
+      setForgottenShift(
+        !status.error && queuedPunches.length === 0 && openEntry && isForgottenClockOut(openEntry.clockIn) ? openEntry : null
+      );
 
       setTimeEntries(timeEntriesLocal);
       setMileageEntries(mileageEntriesLocal);
       setWeekTotalHours(history.week_total_hours);
+      setTimesheets(history.timesheets ?? []);
+      setLoadedHistoryDays(historyDays);
+      setDataCachedAt(oldestCachedAt(status.cached_at, history.cached_at));
     }
 
     loadUserData();
-  }, [currentUser]);
+  }, [currentUser, dataVersion, historyDays]);
+
+  // Re-check status in case another device punched. Only a fresh answer counts,
+  // and never while one of our own punches is still on its way.
+  const recheckStatus = useCallback(async () => {
+    if (!currentUser || isButtonDisabled || !navigator.onLine) return;
+    const shown = clockState;
+
+    const status = await checkStatus(currentUser);
+    if (status.error || status.cached_at) return;
+    const queuedPunches = (await listPendingActions()).filter(
+      (action) => action.tech_name === currentUser && awaitsSync(action)
+    );
+    const latest = queuedPunches.reduce(applyQueuedPunch, clockStateFromStatus(status));
+
+    // Keep a dismissal for as long as the server says the same thing
+    setStatusCheck((prev) => ({
+      shown,
+      latest,
+      dismissed: !!prev?.dismissed && sameClockState(prev.latest, latest),
+    }));
+
+    // A shift left open overnight, say on the shop tablet, turns into a missed
+    // clock-out while the app sits open
+    const openEntry = timeEntries.find(
+      (entry) => entry.clockOut === null && entry.clockIn === latest.clockInTime
+    );
+    if (queuedPunches.length === 0 && openEntry && isForgottenClockOut(openEntry.clockIn)) {
+      setForgottenShift(openEntry);
+    }
+  }, [currentUser, clockState, timeEntries, isButtonDisabled]);
+
+  // ...when the app comes back into view, and every minute while it's showing
+  useEffect(() => {
+    if (!currentUser) return;
+
+    function recheckIfVisible() {
+      if (document.visibilityState === "visible") recheckStatus();
+    }
+
+    window.addEventListener("focus", recheckIfVisible);
+    document.addEventListener("visibilitychange", recheckIfVisible);
+    const interval = setInterval(recheckIfVisible, STATUS_CHECK_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("focus", recheckIfVisible);
+      document.removeEventListener("visibilitychange", recheckIfVisible);
+      clearInterval(interval);
+    };
+  }, [currentUser, recheckStatus]);
+
+  const statusMismatch =
+    statusCheck &&
+    !statusCheck.dismissed &&
+    statusCheck.shown === clockState &&
+    !isButtonDisabled &&
+    !sameClockState(statusCheck.latest, clockState)
+      ? statusCheck.latest
+      : null;
+
+  // Reload everything so history and the missed clock-out check catch up too
+  const adoptLatestStatus = () => {
+    setStatusCheck(null);
+    setDataVersion((prev) => prev + 1);
+  };
+
+  const keepShownStatus = () => {
+    setStatusCheck((prev) => prev && { ...prev, dismissed: true });
+  };
 
   // Update elapsed time every minute when clocked in
   useEffect(() => {
@@ -193,23 +621,48 @@ export default function Home() {
 
   // User selection handler
   const selectUser = (name: string) => {
-    setCurrentUser(name);
-    localStorage.setItem("ahp_current_user", name);
+    setSelectedTech(name);
+    setSignInError(null);
+  };
+
+  // PIN sign-in handler
+  const handleSignIn = async (pin: string): Promise<boolean> => {
+    if (!selectedTech || isSigningIn) return false;
+    setIsSigningIn(true);
+
+    const result = await signIn(selectedTech, pin);
+
+    setIsSigningIn(false);
+    if (!result.success) {
+      setSignInError(result.error);
+      return false;
+    }
+
+    setSelectedTech(null);
+    setSignInError(null);
+    return true;
   };
 
   // Switch user handler
   const switchUser = () => {
-    setCurrentUser(null);
-    localStorage.removeItem("ahp_current_user");
-    setClockState({ isClockedIn: false, clockInTime: null });
+    clearSession();
+    setTechnician(null);
+    setClockState(CLOCKED_OUT);
+    setForgottenShift(null);
+    setStatusCheck(null);
+    setTimesheets([]);
     setTimeEntries([]);
     setMileageEntries([]);
     setWeekTotalHours(0);
+    setHistoryDays(DEFAULT_HISTORY_DAYS);
+    setLoadedHistoryDays(DEFAULT_HISTORY_DAYS);
+    setHistoryRange(historyRangeFor("recent"));
+    setCalendarMonth(monthKeyFor(todayKey()));
   };
 
   // Clock in handler
-  const handleClockIn = useCallback(async () => {
-    if (isButtonDisabled || !currentUser) return;
+  const handleClockIn = useCallback(async (): Promise<string | null> => {
+    if (isButtonDisabled || !currentUser) return null;
     setIsButtonDisabled(true);
 
     const now = new Date();
@@ -219,94 +672,332 @@ export default function Home() {
     setClockState({
       isClockedIn: true,
       clockInTime: clockInTime,
+      breakStartTime: null,
+      siteId: nextSiteId,
     });
     setElapsedTime(getElapsedTime(clockInTime));
     setShowConfirmation(`Clocked in at ${formatTime(now)}`);
 
     // Call API
-    const response = await clockIn(currentUser);
+    const shiftId = newShiftId();
+    const location = await getPunchLocation();
+    const idempotencyKey = newIdempotencyKey();
+    const { response, queued, behindQueue } = await sendOrQueue(
+      {
+        type: "clock_in",
+        tech_name: currentUser,
+        timestamp: clockInTime,
+        shift_id: shiftId,
+        site_id: nextSiteId,
+        location,
+        idempotency_key: idempotencyKey,
+      },
+      () => clockIn(currentUser, clockInTime, shiftId, nextSiteId, location, idempotencyKey)
+    );
+    if (behindQueue) syncQueue();
 
-    if (!response.success) {
-      // Revert on failure
-      setClockState({
-        isClockedIn: false,
-        clockInTime: null,
-      });
-      setShowConfirmation(null);
-      setShowError(response.error || "Failed to clock in");
-      setTimeout(() => setShowError(null), 4000);
-    } else {
+    if (response.success || queued) {
       // Add local entry for immediate display
       const newEntry: TimeEntry = {
-        shiftId: response.shift_id || `${formatDate(now)}_${currentUser}`,
-        date: formatDate(now),
+        shiftId: response.shift_id || shiftId,
+        date: dateKeyFor(now),
         clockIn: clockInTime,
         clockOut: null,
         hoursWorked: null,
+        breaks: [],
+        siteSegments: nextSiteId ? [{ site_id: nextSiteId, start: clockInTime, end: null }] : [],
+        offSite: false,
+        edited: false,
       };
       setTimeEntries((prev) => [newEntry, ...prev.filter(e => e.shiftId !== newEntry.shiftId)]);
+      if (queued) {
+        setShowConfirmation(`Clocked in at ${formatTime(now)} (will sync when online)`);
+      } else if (retryNote(response)) {
+        setShowConfirmation(`Clocked in at ${formatTime(now)}${retryNote(response)}`);
+      }
       setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
+      // Revert on failure
+      setClockState(CLOCKED_OUT);
+      setShowConfirmation(null);
+      setShowError(response.error || "Failed to clock in");
+      setTimeout(() => setShowError(null), 4000);
     }
 
     setTimeout(() => setIsButtonDisabled(false), 2000);
-  }, [currentUser, isButtonDisabled]);
+    return response.success || queued ? response.shift_id || shiftId : null;
+  }, [currentUser, nextSiteId, isButtonDisabled, syncQueue]);
 
   // Clock out handler
-  const handleClockOut = useCallback(async () => {
-    if (isButtonDisabled || !currentUser) return;
+  const handleClockOut = useCallback(async (): Promise<boolean> => {
+    if (isButtonDisabled || !currentUser) return false;
     setIsButtonDisabled(true);
 
     const now = new Date();
     const clockOutTime = now.toISOString();
-    const prevClockInTime = clockState.clockInTime;
+    const prevClockState = clockState;
+    const openEntry = timeEntries.find((entry) => entry.clockOut === null);
 
     // Calculate hours for optimistic display
-    const hoursWorked = prevClockInTime
-      ? calculateHoursWorked(prevClockInTime, clockOutTime)
+    const hoursWorked = prevClockState.clockInTime
+      ? workedHours(prevClockState.clockInTime, clockOutTime, openEntry?.breaks)
       : 0;
 
     // Optimistic update
-    setClockState({
-      isClockedIn: false,
-      clockInTime: null,
-    });
-    setShowConfirmation(`Clocked out. You worked ${hoursWorked}h today.`);
+    setClockState(CLOCKED_OUT);
+    setShowConfirmation(`Clocked out. You worked ${hoursWorked}h this shift.`);
 
     // Call API
-    const response = await clockOut(currentUser);
+    const location = await getPunchLocation();
+    const idempotencyKey = newIdempotencyKey();
+    const shiftId = openEntry?.shiftId ?? null;
+    const { response, queued, behindQueue } = await sendOrQueue(
+      {
+        type: "clock_out",
+        tech_name: currentUser,
+        timestamp: clockOutTime,
+        shift_id: shiftId ?? undefined,
+        location,
+        idempotency_key: idempotencyKey,
+      },
+      () => clockOut(currentUser, clockOutTime, shiftId, location, idempotencyKey)
+    );
+    if (behindQueue) syncQueue();
 
-    if (!response.success) {
+    if (response.success || queued) {
+      // Update the open entry, whichever date it started on
+      const actualHours = response.hours_worked ?? hoursWorked;
+      setTimeEntries((prev) =>
+        prev.map((entry) =>
+          entry.shiftId === openEntry?.shiftId
+            ? {
+                ...entry,
+                clockOut: clockOutTime,
+                hoursWorked: actualHours,
+                breaks: closeBreaks(entry.breaks, clockOutTime),
+                siteSegments: closeSiteSegments(entry.siteSegments, clockOutTime),
+              }
+            : entry
+        )
+      );
+      setWeekTotalHours((prev) => prev + actualHours);
+      if (queued) {
+        setShowConfirmation(`Clocked out. You worked ${hoursWorked}h this shift (will sync when online).`);
+      } else if (retryNote(response)) {
+        setShowConfirmation(`Clocked out. You worked ${actualHours}h this shift${retryNote(response)}.`);
+      }
+      setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
       // Revert on failure
-      setClockState({
-        isClockedIn: true,
-        clockInTime: prevClockInTime,
-      });
+      setClockState(prevClockState);
       setShowConfirmation(null);
       setShowError(response.error || "Failed to clock out");
       setTimeout(() => setShowError(null), 4000);
+    }
+
+    setTimeout(() => setIsButtonDisabled(false), 2000);
+    return response.success || queued;
+  }, [currentUser, clockState, timeEntries, isButtonDisabled, syncQueue]);
+
+  // Odometer mode asks for a reading before each clock-in and clock-out
+  const usesOdometer = technician?.mileage_mode === "odometer";
+
+  // Hand the service worker the reminders that could still come up today
+  useEffect(() => {
+    if (!currentUser || !hasReminders(reminderSettings)) {
+      scheduleReminders([]);
+      return;
+    }
+
+    const today = todayKey();
+    const reminders = planReminders(reminderSettings, {
+      clockInTime: clockState.isClockedIn ? clockState.clockInTime : null,
+      workedToday: timeEntries.some((entry) => entry.date === today),
+      loggedMileageToday: mileageEntries.some((entry) => entry.date === today),
+      logsMileageAutomatically: usesOdometer,
+    });
+    scheduleReminders(reminders);
+
+    // While the app is open, wake the worker when the next one comes due
+    const now = Date.now();
+    const next = reminders
+      .map((reminder) => new Date(reminder.at).getTime())
+      .filter((at) => at > now)
+      .sort((a, b) => a - b)[0];
+    if (next === undefined) return;
+    const timer = setTimeout(showDueReminders, next - now);
+    return () => clearTimeout(timer);
+  }, [currentUser, reminderSettings, clockState, timeEntries, mileageEntries, usesOdometer]);
+
+  const openOdometerPrompt = async () => {
+    if (isButtonDisabled) return;
+    const kind = clockState.isClockedIn ? "end" : "start";
+    const shiftId = kind === "end" ? timeEntries.find((entry) => entry.clockOut === null)?.shiftId ?? null : null;
+    const lastReading = technician?.vehicle_id ? await lastOdometerReading(technician.vehicle_id) : null;
+    setOdometerPrompt({ kind, shiftId, lastReading });
+  };
+
+  const handleOdometerPunch = async (submission: OdometerSubmission | null) => {
+    if (!currentUser || !odometerPrompt) return;
+    const { kind } = odometerPrompt;
+    setOdometerPrompt(null);
+
+    const shiftId = kind === "start" ? await handleClockIn() : (await handleClockOut()) && odometerPrompt.shiftId;
+    if (!submission || !shiftId) return;
+
+    const reading: OdometerReading = {
+      tech_name: currentUser,
+      vehicle_id: submission.vehicleId,
+      shift_id: shiftId,
+      kind,
+      reading: submission.reading,
+      timestamp: new Date().toISOString(),
+    };
+    const idempotencyKey = newIdempotencyKey();
+    const { response, queued, behindQueue } = await sendOrQueue(
+      {
+        type: "odometer",
+        tech_name: currentUser,
+        reading,
+        photo: submission.photo,
+        idempotency_key: idempotencyKey,
+      },
+      () => recordOdometer(reading, submission.photo, idempotencyKey)
+    );
+    if (behindQueue) syncQueue();
+
+    if (response.success && response.miles !== undefined && response.entry_id) {
+      const newEntry: MileageEntry = {
+        entryId: response.entry_id,
+        date: dateKeyFor(timeEntries.find((entry) => entry.shiftId === shiftId)?.clockIn ?? reading.timestamp),
+        miles: response.miles,
+        description: `Odometer (${submission.vehicleId})`,
+        odometerTrip: true,
+        commuteDeductedMiles: response.commute_deducted_miles,
+        // The start photo is on the server's copy; it shows after the next refresh
+        photos: submission.photo ? [toPhoto(submission.photo)] : [],
+      };
+      setMileageEntries((prev) => [newEntry, ...prev]);
+      setShowConfirmation(`${response.miles} mi logged from the odometer${retryNote(response)}`);
+      setTimeout(() => setShowConfirmation(null), 3000);
+    } else if (response.success && response.miles !== undefined) {
+      setShowError("The trip was sent, but no entry came back. Check History before logging it again.");
+      setTimeout(() => setShowError(null), 4000);
+    } else if (!response.success && !queued) {
+      setShowError(response.error || "Failed to save odometer reading");
+      setTimeout(() => setShowError(null), 4000);
+    }
+  };
+
+  // Site picker handler. Before clock-in it only sets where the shift starts.
+  const handleSiteChange = useCallback(async (siteId: string) => {
+    if (!clockState.isClockedIn) {
+      setNextSiteId(siteId || null);
+      return;
+    }
+    if (!currentUser || !siteId || siteId === clockState.siteId || isButtonDisabled) return;
+    setIsButtonDisabled(true);
+
+    const now = new Date();
+    const timestamp = now.toISOString();
+    const prevClockState = clockState;
+    const label = `Now at ${siteLabel(sites, siteId)}`;
+
+    // Optimistic update
+    setClockState({ ...clockState, siteId });
+    setShowConfirmation(label);
+
+    // Call API
+    const idempotencyKey = newIdempotencyKey();
+    const { response, queued, behindQueue } = await sendOrQueue(
+      {
+        type: "switch_site",
+        tech_name: currentUser,
+        timestamp,
+        site_id: siteId,
+        idempotency_key: idempotencyKey,
+      },
+      () => switchSite(currentUser, siteId, timestamp, idempotencyKey)
+    );
+    if (behindQueue) syncQueue();
+
+    if (response.success || queued) {
+      setTimeEntries((prev) =>
+        prev.map((entry) =>
+          entry.clockOut === null
+            ? { ...entry, siteSegments: switchSegments(entry.siteSegments, siteId, timestamp) }
+            : entry
+        )
+      );
+      if (queued) {
+        setShowConfirmation(`${label} (will sync when online)`);
+      } else if (retryNote(response)) {
+        setShowConfirmation(`${label}${retryNote(response)}`);
+      }
+      setTimeout(() => setShowConfirmation(null), 3000);
     } else {
-      // Update local entry
-      const actualHours = response.hours_worked ?? hoursWorked;
-      setTimeEntries((prev) => {
-        const updated = [...prev];
-        const todayIndex = updated.findIndex(
-          (entry) => entry.date === formatDate(now) && entry.clockOut === null
-        );
-        if (todayIndex !== -1) {
-          updated[todayIndex] = {
-            ...updated[todayIndex],
-            clockOut: clockOutTime,
-            hoursWorked: actualHours,
-          };
-        }
-        return updated;
-      });
-      setWeekTotalHours((prev) => prev + actualHours);
+      // Revert on failure
+      setClockState(prevClockState);
+      setShowConfirmation(null);
+      setShowError(response.error || "Failed to switch site");
+      setTimeout(() => setShowError(null), 4000);
+    }
+
+    setTimeout(() => setIsButtonDisabled(false), 2000);
+  }, [currentUser, clockState, sites, isButtonDisabled, syncQueue]);
+
+  // Break start/end handler
+  const handleBreak = useCallback(async () => {
+    if (isButtonDisabled || !currentUser || !clockState.isClockedIn) return;
+    setIsButtonDisabled(true);
+
+    const now = new Date();
+    const timestamp = now.toISOString();
+    const prevClockState = clockState;
+    const action = clockState.breakStartTime ? "break_end" : "break_start";
+    const label = action === "break_start" ? "Break started" : "Break ended";
+
+    // Optimistic update
+    setClockState({ ...clockState, breakStartTime: action === "break_start" ? timestamp : null });
+    setShowConfirmation(`${label} at ${formatTime(now)}`);
+
+    // Call API
+    const idempotencyKey = newIdempotencyKey();
+    const { response, queued, behindQueue } = await sendOrQueue(
+      { type: action, tech_name: currentUser, timestamp, idempotency_key: idempotencyKey },
+      () =>
+        action === "break_start"
+          ? startBreak(currentUser, timestamp, idempotencyKey)
+          : endBreak(currentUser, timestamp, idempotencyKey)
+    );
+    if (behindQueue) syncQueue();
+
+    if (response.success || queued) {
+      setTimeEntries((prev) =>
+        prev.map((entry) => {
+          if (entry.clockOut !== null) return entry;
+          const breaks = action === "break_start"
+            ? [...entry.breaks, { start: timestamp, end: null }]
+            : closeBreaks(entry.breaks, timestamp);
+          return { ...entry, breaks };
+        })
+      );
+      if (queued) {
+        setShowConfirmation(`${label} at ${formatTime(now)} (will sync when online)`);
+      } else if (retryNote(response)) {
+        setShowConfirmation(`${label} at ${formatTime(now)}${retryNote(response)}`);
+      }
       setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
+      // Revert on failure
+      setClockState(prevClockState);
+      setShowConfirmation(null);
+      setShowError(response.error || `Failed to ${action === "break_start" ? "start" : "end"} break`);
+      setTimeout(() => setShowError(null), 4000);
     }
 
     setTimeout(() => setIsButtonDisabled(false), 2000);
-  }, [currentUser, clockState.clockInTime, isButtonDisabled]);
+  }, [currentUser, clockState, isButtonDisabled, syncQueue]);
 
   // Mileage submit handler
   const handleMileageSubmit = async (e: React.FormEvent) => {
@@ -315,66 +1006,373 @@ export default function Home() {
 
     setIsSubmittingMileage(true);
 
-    const response = await submitMileage(
-      currentUser,
-      mileageDate,
-      parseFloat(mileageMiles),
-      mileageDescription
+    const idempotencyKey = newIdempotencyKey();
+    const { response, queued, behindQueue } = await sendOrQueue(
+      {
+        type: "mileage",
+        tech_name: currentUser,
+        date: mileageDate,
+        miles: parseFloat(mileageMiles),
+        description: mileageDescription,
+        photos: mileagePhotos,
+        idempotency_key: idempotencyKey,
+      },
+      () =>
+        submitMileage(currentUser, mileageDate, parseFloat(mileageMiles), mileageDescription, mileagePhotos, idempotencyKey)
     );
+    if (behindQueue) syncQueue();
 
-    if (response.success) {
+    // A queued entry gets its ID once it syncs; until then the key stands in
+    const entryId = queued ? idempotencyKey : response.entry_id;
+    if ((response.success || queued) && entryId) {
       // Add to local state
       const newEntry: MileageEntry = {
-        entryId: response.entry_id || `mileage_${Date.now()}`,
+        entryId,
         date: mileageDate,
         miles: parseFloat(mileageMiles),
         description: mileageDescription,
+        photos: mileagePhotos.map(toPhoto),
+        pending: !!queued,
       };
       setMileageEntries((prev) => [newEntry, ...prev]);
 
       // Reset form and go back
-      setMileageDate(formatDate(new Date()));
+      setMileageDate(todayKey());
       setMileageMiles("");
       setMileageDescription("");
+      setMileagePhotos([]);
       setCurrentScreen("home");
 
-      setShowConfirmation("Mileage entry saved");
+      setShowConfirmation(queued ? "Mileage saved (will sync when online)" : `Mileage entry saved${retryNote(response)}`);
       setTimeout(() => setShowConfirmation(null), 3000);
     } else {
-      setShowError(response.error || "Failed to save mileage");
+      setShowError(
+        response.success
+          ? "Mileage was sent, but no entry came back. Check History before logging it again."
+          : response.error || "Failed to save mileage"
+      );
       setTimeout(() => setShowError(null), 4000);
     }
 
     setIsSubmittingMileage(false);
   };
 
+  // Photos added to a saved mileage entry from History
+  const handleAddPhoto = async (entryId: string, file: File | undefined) => {
+    if (!currentUser || !file) return;
+
+    const photo = await preparePhoto(file, "receipt");
+    if (!photo) {
+      setShowError("Couldn't use that photo. Try taking it again.");
+      setTimeout(() => setShowError(null), 4000);
+      return;
+    }
+
+    const idempotencyKey = newIdempotencyKey();
+    const { response, queued, behindQueue } = await sendOrQueue(
+      {
+        type: "photos",
+        tech_name: currentUser,
+        entry_id: entryId,
+        photos: [photo],
+        idempotency_key: idempotencyKey,
+      },
+      () => addMileagePhotos(currentUser, entryId, [photo], idempotencyKey)
+    );
+    if (behindQueue) syncQueue();
+
+    if (response.success || queued) {
+      setMileageEntries((prev) =>
+        prev.map((entry) =>
+          entry.entryId === entryId ? { ...entry, photos: [...entry.photos, toPhoto(photo)] } : entry
+        )
+      );
+      setShowConfirmation(queued ? "Photo saved (will upload when online)" : `Photo added${retryNote(response)}`);
+      setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
+      setShowError(response.error || "Failed to add photo");
+      setTimeout(() => setShowError(null), 4000);
+    }
+  };
+
+  // Edit request handler
+  const handleEditSubmit = async (submission: EditEntrySubmission) => {
+    if (!currentUser || !editingEntry || isSubmittingEdit) return;
+    setIsSubmittingEdit(true);
+
+    const response = await editEntry(
+      currentUser,
+      editingEntry.shiftId,
+      submission.field,
+      submission.oldValue,
+      submission.newValue,
+      submission.reason
+    );
+
+    if (response.success) {
+      const shiftId = editingEntry.shiftId;
+      setTimeEntries((prev) =>
+        prev.map((entry) => {
+          if (entry.shiftId !== shiftId) return entry;
+          const clockIn = submission.field === "clock_in" ? submission.newValue : entry.clockIn;
+          const clockOut = submission.field === "clock_out" ? submission.newValue : entry.clockOut;
+          return {
+            ...entry,
+            clockIn,
+            clockOut,
+            hoursWorked: clockOut ? workedHours(clockIn, clockOut, entry.breaks) : null,
+            edited: true,
+            // Keep the very first values so repeated edits still show what was punched
+            originalClockIn: entry.edited ? entry.originalClockIn : entry.clockIn,
+            originalClockOut: entry.edited ? entry.originalClockOut : entry.clockOut,
+          };
+        })
+      );
+      setEditingEntry(null);
+      setShowConfirmation("Change submitted");
+      setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
+      setShowError(response.error || "Failed to submit change");
+      setTimeout(() => setShowError(null), 4000);
+    }
+
+    setIsSubmittingEdit(false);
+  };
+
+  // Mileage corrections and deletions; both go in the audit trail with the reason
+  const handleMileageEditSubmit = async (submission: EditMileageSubmission) => {
+    if (!currentUser || !editingMileage || isSubmittingEdit) return;
+    setIsSubmittingEdit(true);
+
+    const entryId = editingMileage.entryId;
+    const response =
+      submission.action === "delete"
+        ? await deleteMileage(currentUser, entryId, submission.reason)
+        : await editMileage(currentUser, entryId, submission.correction, submission.reason);
+
+    if (response.success) {
+      if (submission.action === "delete") {
+        setMileageEntries((prev) => prev.filter((entry) => entry.entryId !== entryId));
+      } else {
+        const { correction } = submission;
+        setMileageEntries((prev) =>
+          prev.map((entry) =>
+            entry.entryId !== entryId
+              ? entry
+              : {
+                  ...entry,
+                  ...correction,
+                  edited: true,
+                  // Keep the very first values so repeated edits still show what was logged
+                  originalDate: entry.edited ? entry.originalDate : entry.date,
+                  originalMiles: entry.edited ? entry.originalMiles : entry.miles,
+                  originalDescription: entry.edited ? entry.originalDescription : entry.description,
+                }
+          )
+        );
+      }
+      setEditingMileage(null);
+      setShowConfirmation(
+        `${submission.action === "delete" ? "Mileage deleted" : "Mileage corrected"}${retryNote(response)}`
+      );
+      setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
+      setShowError(response.error || "Failed to submit change");
+      setTimeout(() => setShowError(null), 4000);
+    }
+
+    setIsSubmittingEdit(false);
+  };
+
+  // Closing a shift that missed its clock-out goes through as an edit request
+  const handleForgottenClockOut = async (submission: EditEntrySubmission) => {
+    if (!currentUser || !forgottenShift || isSubmittingEdit) return;
+    setIsSubmittingEdit(true);
+
+    const response = await editEntry(
+      currentUser,
+      forgottenShift.shiftId,
+      "clock_out",
+      forgottenShift.clockOut,
+      submission.newValue,
+      submission.reason
+    );
+
+    if (response.success) {
+      setForgottenShift(null);
+      setClockState(CLOCKED_OUT);
+      setDataVersion((prev) => prev + 1);
+      setShowConfirmation(`Shift closed at ${formatTime(new Date(submission.newValue))}`);
+      setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
+      setShowError(response.error || "Failed to close shift");
+      setTimeout(() => setShowError(null), 4000);
+    }
+
+    setIsSubmittingEdit(false);
+  };
+
+  // Reminder settings save handler
+  const handleReminderSave = async (settings: ReminderSettings) => {
+    if (!currentUser) return;
+    saveReminderSettings(currentUser, settings);
+    setReminderSettings(settings);
+    setCurrentScreen("home");
+
+    const permission = hasReminders(settings) ? await requestNotificationPermission() : "granted";
+    if (permission === "granted") {
+      setShowConfirmation("Reminders saved");
+      setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
+      setShowError("Reminders saved, but notifications are blocked for this app");
+      setTimeout(() => setShowError(null), 4000);
+    }
+  };
+
+  // Manual retry from the pending sync banner
+  const retrySync = async () => {
+    const result = await syncQueue();
+    if (result.rejected === 0 && result.remaining > 0) {
+      setShowError("Still offline. Will keep trying.");
+      setTimeout(() => setShowError(null), 4000);
+    }
+  };
+
+  // A refused action the tech sends again, say once the shift it needed exists
+  const retryRejected = async (id: number) => {
+    await retryAction(id);
+    await retrySync();
+  };
+
+  const openWeekReview = (weekStart: string) => {
+    setReviewWeekStart(weekStart);
+    setCurrentScreen("review");
+  };
+
+  // Weekly sign-off. The server checks the totals against its own copy, so the
+  // tech attests to exactly what they were shown.
+  const handleSubmitWeek = async () => {
+    if (!currentUser || isSubmittingWeek) return;
+    setIsSubmittingWeek(true);
+
+    const response = await submitTimesheet(currentUser, {
+      week_start: reviewWeekStart,
+      ...totalsForWeek(reviewWeekStart, timeEntries, mileageEntries),
+      attestation: TIMESHEET_ATTESTATION,
+    });
+
+    if (response.success) {
+      const timesheet = response.timesheet ?? { week_start: reviewWeekStart, status: "submitted" };
+      setTimesheets((prev) => [timesheet, ...prev.filter((t) => t.week_start !== reviewWeekStart)]);
+      setCurrentScreen("home");
+      setShowConfirmation(`Week submitted${retryNote(response)}`);
+      setTimeout(() => setShowConfirmation(null), 3000);
+    } else {
+      setShowError(response.error || "Failed to submit week");
+      setTimeout(() => setShowError(null), 4000);
+    }
+
+    setIsSubmittingWeek(false);
+  };
+
   // Refresh history
   const refreshHistory = async () => {
     if (!currentUser) return;
-    const history = await fetchHistory(currentUser);
-
-    const timeEntriesLocal: TimeEntry[] = history.time_entries.map((entry: APITimeEntry) => ({
-      shiftId: entry.shift_id,
-      date: entry.date,
-      clockIn: entry.clock_in,
-      clockOut: entry.clock_out,
-      hoursWorked: entry.hours_worked,
-    }));
+    const history = await fetchHistory(currentUser, historyDays);
+    if (history.error) {
+      setShowError(history.error);
+      setTimeout(() => setShowError(null), 4000);
+      return;
+    }
 
-    const mileageEntriesLocal: MileageEntry[] = history.mileage_entries.map((entry: APIMileageEntry) => ({
-      entryId: entry.entry_id,
-      date: entry.date,
-      miles: entry.miles,
-      description: entry.description,
-    }));
+    const timeEntriesLocal = history.time_entries.map(toLocalTimeEntry);
+    const mileageEntriesLocal = history.mileage_entries.map(toLocalMileageEntry);
 
     setTimeEntries(timeEntriesLocal);
     setMileageEntries(mileageEntriesLocal);
     setWeekTotalHours(history.week_total_hours);
+    setTimesheets(history.timesheets ?? []);
+    setLoadedHistoryDays(historyDays);
+    setDataCachedAt(history.cached_at ?? null);
+  };
+
+  // Fetch further back when something older than what's loaded is asked for
+  const loadHistoryBackTo = (dateKey: string) => {
+    const days = historyDaysFor(dateKey);
+    if (days <= historyDays) return;
+    setIsLoadingHistory(true);
+    setHistoryDays(days);
   };
 
+  const selectHistoryRange = (preset: HistoryRangePreset) => {
+    // Custom starts from whatever's showing, so it can be adjusted from there
+    const range =
+      preset === "custom" && historyRange.preset !== "recent"
+        ? { ...historyRange, preset }
+        : historyRangeFor(preset);
+    setHistoryRange(range);
+    if (preset !== "recent") {
+      setCalendarMonth(monthKeyFor(range.start));
+      loadHistoryBackTo(range.start);
+    }
+  };
+
+  const updateCustomRange = (field: "start" | "end", value: string) => {
+    if (!value) return;
+    const range = { ...historyRange, preset: "custom" as const, [field]: value };
+    setHistoryRange(range);
+    loadHistoryBackTo(range.start);
+  };
+
+  const changeCalendarMonth = (month: string) => {
+    setCalendarMonth(month);
+    loadHistoryBackTo(calendarWeeks(month)[0][0]);
+  };
+
+  // Confirmation and error toasts
+  const toasts = (
+    <>
+      {/* Confirmation toast */}
+      {showConfirmation && (
+        <div className="fixed left-1/2 top-4 z-50 -translate-x-1/2 transform">
+          <div className="flex items-center gap-2 rounded-full bg-green-600 px-4 py-2 text-white shadow-lg">
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            <span className="text-sm font-medium">{showConfirmation}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Error toast */}
+      {showError && (
+        <div className="fixed left-1/2 top-4 z-50 -translate-x-1/2 transform">
+          <div className="flex items-center gap-2 rounded-full bg-red-600 px-4 py-2 text-white shadow-lg">
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+            <span className="text-sm font-medium">{showError}</span>
+          </div>
+        </div>
+      )}
+    </>
+  );
+
+  // Offline / stale data notice
+  const staleNotice = (!isOnline || dataCachedAt) && (
+    <div className="mb-4 rounded-lg bg-gray-100 px-3 py-2 text-center text-sm text-gray-600">
+      {!isOnline ? "You're offline. " : ""}
+      {dataCachedAt
+        ? `Showing saved data from ${formatBusinessDate(dataCachedAt, {
+            month: "short",
+            day: "numeric",
+          })} ${formatTime(new Date(dataCachedAt))}.`
+        : "Data may be out of date."}
+    </div>
+  );
+
   // Loading state
-  if (isLoading) {
+  if (!isHydrated) {
     return (
       <div className="flex min-h-screen items-center justify-center">
         <div className="h-8 w-8 animate-spin rounded-full border-4 border-green-600 border-t-transparent"></div>
@@ -382,6 +1380,21 @@ export default function Home() {
     );
   }
 
+  // PIN entry screen
+  if (!currentUser && selectedTech) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center px-6">
+        <PinEntry
+          techName={selectedTech}
+          error={signInError}
+          isSubmitting={isSigningIn}
+          onSubmit={handleSignIn}
+          onCancel={() => setSelectedTech(null)}
+        />
+      </div>
+    );
+  }
+
   // User selection screen
   if (!currentUser) {
     return (
@@ -418,17 +1431,7 @@ export default function Home() {
   if (currentScreen === "mileage") {
     return (
       <div className="flex min-h-screen flex-col px-6 py-8 safe-bottom">
-        {/* Error toast */}
-        {showError && (
-          <div className="fixed left-1/2 top-4 z-50 -translate-x-1/2 transform">
-            <div className="flex items-center gap-2 rounded-full bg-red-600 px-4 py-2 text-white shadow-lg">
-              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-              <span className="text-sm font-medium">{showError}</span>
-            </div>
-          </div>
-        )}
+        {toasts}
 
         <div className="mb-6 flex items-center">
           <button
@@ -480,6 +1483,16 @@ export default function Home() {
             />
           </div>
 
+          <div>
+            <label className="mb-1 block text-sm font-medium text-gray-700">Photos (optional)</label>
+            <PhotoPicker
+              photos={mileagePhotos}
+              kinds={["odometer", "receipt"]}
+              max={MAX_PHOTOS_PER_ENTRY}
+              onChange={setMileagePhotos}
+            />
+          </div>
+
           <button
             type="submit"
             disabled={isSubmittingMileage}
@@ -493,15 +1506,121 @@ export default function Home() {
   }
 
   // History screen
+  // Reminder settings screen
+  if (currentScreen === "settings") {
+    const warning = !notificationsSupported()
+      ? "This browser can't show notifications. On iPhone, add the app to your home screen first."
+      : Notification.permission === "denied"
+        ? "Notifications are blocked for this app. Allow them in your browser's site settings."
+        : null;
+
+    return (
+      <div className="flex min-h-screen flex-col px-6 py-8 safe-bottom">
+        {toasts}
+
+        <div className="mb-6 flex items-center">
+          <button
+            onClick={() => setCurrentScreen("home")}
+            className="mr-4 text-gray-600"
+          >
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">Reminders</h1>
+        </div>
+
+        <ReminderSettingsForm settings={reminderSettings} warning={warning} onSave={handleReminderSave} />
+      </div>
+    );
+  }
+
+  // Week review and sign-off screen
+  if (currentScreen === "review") {
+    const timesheet = timesheetFor(timesheets, reviewWeekStart);
+    const weekEnd = addDays(reviewWeekStart, 7);
+    const blocker = !isSubmittableWeek(reviewWeekStart)
+      ? "You can submit this week once it ends on Saturday."
+      : !isOnline
+        ? "Connect to the internet to submit."
+        : queuedActions.some((action) => action.tech_name === currentUser && awaitsSync(action))
+          ? "Wait for your pending actions to sync first."
+          : timeEntries.some((entry) => entry.clockOut === null && entry.date >= reviewWeekStart && entry.date < weekEnd)
+            ? "Clock out before submitting this week."
+            : null;
+
+    return (
+      <div className="flex min-h-screen flex-col px-6 py-8 safe-bottom">
+        {toasts}
+
+        <div className="mb-6 flex items-center">
+          <button
+            onClick={() => setCurrentScreen("home")}
+            className="mr-4 text-gray-600"
+          >
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">
+            Week of {formatDateKey(reviewWeekStart, { month: "short", day: "numeric" })}
+          </h1>
+        </div>
+
+        {staleNotice}
+
+        <WeekReview
+          key={reviewWeekStart}
+          timesheet={timesheet}
+          days={reviewDays(reviewWeekStart, timeEntries, mileageEntries)}
+          totals={totalsForWeek(reviewWeekStart, timeEntries, mileageEntries)}
+          blocker={blocker}
+          isSubmitting={isSubmittingWeek}
+          onSubmit={handleSubmitWeek}
+        />
+      </div>
+    );
+  }
+
   if (currentScreen === "history") {
     const userTimeEntries = timeEntries
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      .filter((entry) => isInRange(historyRange, entry.date))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.clockIn.localeCompare(a.clockIn));
 
     const userMileageEntries = mileageEntries
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      .filter((entry) => isInRange(historyRange, entry.date))
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    const loadedSince = historySince(loadedHistoryDays);
+    const hoursByDate = new Map(
+      groupHoursByDate(timeEntries).map((day) => [day.date, day.hoursWorked ?? 0])
+    );
+    const rangeLabel =
+      historyRange.preset === "recent"
+        ? `Since ${formatDateKey(loadedSince, { month: "short", day: "numeric", year: "numeric" })}`
+        : `${formatDateKey(historyRange.start, { month: "short", day: "numeric" })} - ${formatDateKey(historyRange.end, {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+          })}`;
+
+    const reimbursement = computeReimbursement(
+      userMileageEntries.map((entry) => ({
+        entry_id: entry.entryId,
+        date: entry.date,
+        miles: entry.miles,
+        description: entry.description,
+        commute_deducted_miles: entry.commuteDeductedMiles,
+      })),
+      technician ?? undefined
+    );
+    const reimbursedById = new Map(reimbursement.entries.map((entry) => [entry.entry_id, entry]));
+    const clientHours = sites.length > 0 ? hoursByClient(userTimeEntries, sites) : [];
 
     return (
       <div className="flex min-h-screen flex-col px-6 py-8 safe-bottom">
+        {toasts}
+
         <div className="mb-6 flex items-center justify-between">
           <div className="flex items-center">
             <button
@@ -514,49 +1633,194 @@ export default function Home() {
             </button>
             <h1 className="text-xl font-bold text-gray-900">My History</h1>
           </div>
-          <button
-            onClick={refreshHistory}
-            className="text-green-600"
-          >
-            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-4">
+            <Link href="/report" className="text-green-600" aria-label="Printable timesheet">
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+              </svg>
+            </Link>
+            <button
+              onClick={refreshHistory}
+              className="text-green-600"
+            >
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          </div>
         </div>
 
+        {staleNotice}
+
         <div className="space-y-6">
+          {/* Range picker */}
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(HISTORY_RANGE_LABELS) as HistoryRangePreset[]).map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => selectHistoryRange(preset)}
+                  className={`rounded-full px-3 py-1 text-sm font-medium ${
+                    historyRange.preset === preset
+                      ? "bg-green-600 text-white"
+                      : "bg-white text-gray-700 ring-1 ring-gray-300"
+                  }`}
+                >
+                  {HISTORY_RANGE_LABELS[preset]}
+                </button>
+              ))}
+            </div>
+            {historyRange.preset === "custom" && (
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm text-gray-700">
+                  From
+                  <input
+                    type="date"
+                    value={historyRange.start}
+                    max={historyRange.end}
+                    onChange={(e) => updateCustomRange("start", e.target.value)}
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  To
+                  <input
+                    type="date"
+                    value={historyRange.end}
+                    min={historyRange.start}
+                    onChange={(e) => updateCustomRange("end", e.target.value)}
+                    className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+                  />
+                </label>
+              </div>
+            )}
+            <p className="text-sm text-gray-500">
+              {rangeLabel}
+              {isLoadingHistory && " · Loading..."}
+            </p>
+          </div>
+
+          <HistoryCalendar
+            month={calendarMonth}
+            hoursByDate={hoursByDate}
+            range={historyRange}
+            loadedSince={loadedSince}
+            isLoading={isLoadingHistory}
+            onChangeMonth={changeCalendarMonth}
+            onSelectDay={(date) => setHistoryRange({ preset: "custom", start: date, end: date })}
+          />
+
+          {/* Hours per client */}
+          {clientHours.length > 0 && (
+            <div>
+              <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500">
+                Hours by Client
+              </h2>
+              <div className="rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200">
+                {clientHours.map(({ client, hours }) => (
+                  <div key={client} className="flex items-center justify-between py-1 text-sm">
+                    <span className="text-gray-700">{client}</span>
+                    <span className="font-semibold text-gray-900">{hours}h</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Time Entries */}
           <div>
             <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500">
               Time Entries
             </h2>
             {userTimeEntries.length === 0 ? (
-              <p className="text-gray-500">No time entries yet</p>
+              <p className="text-gray-500">No time entries in this range</p>
             ) : (
-              <div className="space-y-2">
-                {userTimeEntries.map((entry) => (
-                  <div
-                    key={entry.shiftId}
-                    className="rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200"
-                  >
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium text-gray-900">
-                          {getDayName(entry.date)}, {entry.date}
-                        </p>
-                        <p className="text-sm text-gray-500">
-                          {formatTime(new Date(entry.clockIn))}
-                          {entry.clockOut
-                            ? ` - ${formatTime(new Date(entry.clockOut))}`
-                            : " - In progress"}
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-lg font-semibold text-gray-900">
-                          {entry.hoursWorked !== null ? `${entry.hoursWorked}h` : "--"}
-                        </p>
-                      </div>
+              <div className="space-y-4">
+                {groupByWeek(userTimeEntries).map(({ weekStart, items }) => (
+                  <div key={weekStart} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium text-gray-700">
+                        Week of {formatDateKey(weekStart, { month: "short", day: "numeric" })}
+                      </span>
+                      <span className="font-semibold text-gray-900">
+                        {Math.round(items.reduce((sum, entry) => sum + (entry.hoursWorked ?? 0), 0) * 100) / 100}h
+                      </span>
                     </div>
+                    {items.map((entry) => {
+                      // Submitted and approved weeks are read-only until a manager reopens
+                      // them, apart from closing a shift that's still open
+                      const weekTimesheet = timesheetFor(timesheets, weekStartKey(entry.date));
+                      const locked = isWeekLocked(weekTimesheet) && entry.clockOut !== null;
+                      return (
+                        <button
+                          key={entry.shiftId}
+                          onClick={() => setEditingEntry(entry)}
+                          disabled={locked}
+                          className="w-full rounded-lg bg-white p-4 text-left shadow-sm ring-1 ring-gray-200 transition-all active:bg-gray-50 disabled:active:bg-white"
+                        >
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-medium text-gray-900">
+                                {getDayName(entry.date)}, {entry.date}
+                                {locked && (
+                                  <span className="ml-2">
+                                    <WeekStatusBadge status={weekTimesheet.status} />
+                                  </span>
+                                )}
+                                {entry.edited && (
+                                  <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+                                    Edited
+                                  </span>
+                                )}
+                                {entry.offSite && (
+                                  <span className="ml-2 rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-700">
+                                    Off-site
+                                  </span>
+                                )}
+                              </p>
+                              <p className="text-sm text-gray-500">
+                                {formatTime(new Date(entry.clockIn))}
+                                {entry.clockOut
+                                  ? ` - ${formatTime(new Date(entry.clockOut))}`
+                                  : " - In progress"}
+                              </p>
+                              {entry.siteSegments.length > 0 && (
+                                <p className="text-xs text-gray-500">
+                                  {entrySiteHours(entry)
+                                    .map(({ site_id, hours }) => `${siteLabel(sites, site_id)} ${hours}h`)
+                                    .join(" · ")}
+                                </p>
+                              )}
+                              {entry.breaks.length > 0 && (
+                                <p className="text-xs text-gray-500">
+                                  {entry.breaks
+                                    .map((segment) =>
+                                      `${formatTime(new Date(segment.start))} - ${
+                                        segment.end ? formatTime(new Date(segment.end)) : "now"
+                                      }`
+                                    )
+                                    .join(", ")}{" "}
+                                  · {formatBreakTotal(entry)}
+                                </p>
+                              )}
+                              {entry.edited && entry.originalClockIn !== undefined && (
+                                <p className="text-xs text-gray-400 line-through">
+                                  {formatTime(new Date(entry.originalClockIn))}
+                                  {entry.originalClockOut
+                                    ? ` - ${formatTime(new Date(entry.originalClockOut))}`
+                                    : " - no clock out"}
+                                </p>
+                              )}
+                            </div>
+                            <div className="text-right">
+                              <p className="text-lg font-semibold text-gray-900">
+                                {entry.hoursWorked !== null ? `${entry.hoursWorked}h` : "--"}
+                              </p>
+                            </div>
+                          </div>
+                        </button>
+                      );
+                    })}
                   </div>
                 ))}
               </div>
@@ -569,81 +1833,215 @@ export default function Home() {
               Mileage Entries
             </h2>
             {userMileageEntries.length === 0 ? (
-              <p className="text-gray-500">No mileage entries yet</p>
+              <p className="text-gray-500">No mileage entries in this range</p>
             ) : (
-              <div className="space-y-2">
-                {userMileageEntries.map((entry) => (
-                  <div
-                    key={entry.entryId}
-                    className="rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200"
-                  >
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium text-gray-900">{entry.description}</p>
-                        <p className="text-sm text-gray-500">{entry.date}</p>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-lg font-semibold text-gray-900">{entry.miles} mi</p>
-                      </div>
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  {reimbursement.reimbursable_miles} of {reimbursement.miles} mi reimbursable ·{" "}
+                  <span className="font-semibold text-gray-900">{formatMoney(reimbursement.amount)}</span>
+                  {reimbursement.capped && <span className="ml-1 text-amber-600">(capped)</span>}
+                </p>
+                {groupByWeek(userMileageEntries).map(({ weekStart, items }) => (
+                  <div key={weekStart} className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium text-gray-700">
+                        Week of {formatDateKey(weekStart, { month: "short", day: "numeric" })}
+                      </span>
+                      <span className="font-semibold text-gray-900">
+                        {Math.round(items.reduce((sum, entry) => sum + entry.miles, 0) * 10) / 10} mi
+                      </span>
                     </div>
+                    {items.map((entry) => {
+                      // Entries in submitted and approved weeks stay as they are until a manager reopens them
+                      const lockedWeek = lockedWeekForDays(timesheets, entry.date);
+                      return (
+                        <div
+                          key={entry.entryId}
+                          className="rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200"
+                        >
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="font-medium text-gray-900">
+                                {entry.description}
+                                {lockedWeek && (
+                                  <span className="ml-2">
+                                    <WeekStatusBadge status={lockedWeek.status} />
+                                  </span>
+                                )}
+                                {entry.edited && (
+                                  <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+                                    Edited
+                                  </span>
+                                )}
+                              </p>
+                              <p className="text-sm text-gray-500">{entry.date}</p>
+                              {entry.edited && entry.originalMiles !== undefined && (
+                                <p className="text-xs text-gray-400 line-through">
+                                  {entry.originalDescription} · {entry.originalDate} · {entry.originalMiles} mi
+                                </p>
+                              )}
+                              <PhotoThumbnails techName={currentUser} photos={entry.photos} />
+                              {!entry.pending && (
+                                <div className="mt-1 flex gap-3 text-xs text-green-600">
+                                  {entry.photos.length < MAX_PHOTOS_PER_ENTRY && (
+                                    <label className="cursor-pointer">
+                                      + Add photo
+                                      <input
+                                        type="file"
+                                        accept="image/*"
+                                        capture="environment"
+                                        onChange={(e) => {
+                                          handleAddPhoto(entry.entryId, e.target.files?.[0]);
+                                          e.target.value = "";
+                                        }}
+                                        className="hidden"
+                                      />
+                                    </label>
+                                  )}
+                                  {!lockedWeek && <button onClick={() => setEditingMileage(entry)}>Edit</button>}
+                                </div>
+                              )}
+                            </div>
+                            <div className="text-right">
+                              <p className="text-lg font-semibold text-gray-900">{entry.miles} mi</p>
+                              <p className="text-xs text-gray-500">
+                                {reimbursedById.get(entry.entryId)?.reimbursable_miles ?? 0} mi ·{" "}
+                                {formatMoney(reimbursedById.get(entry.entryId)?.amount ?? 0)}
+                              </p>
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
                 ))}
               </div>
             )}
           </div>
+
+          {historyRange.preset === "recent" && (
+            <button
+              onClick={() => loadHistoryBackTo(addDays(loadedSince, -HISTORY_PAGE_DAYS))}
+              disabled={isLoadingHistory}
+              className="w-full rounded-lg bg-white py-3 text-sm font-medium text-green-600 ring-1 ring-gray-200 active:bg-gray-50 disabled:opacity-50"
+            >
+              {isLoadingHistory ? "Loading..." : "Load older entries"}
+            </button>
+          )}
         </div>
+
+        {editingEntry && (
+          <EditEntrySheet
+            title={`Edit ${getDayName(editingEntry.date)}, ${editingEntry.date}`}
+            clockIn={editingEntry.clockIn}
+            clockOut={editingEntry.clockOut}
+            isSubmitting={isSubmittingEdit}
+            onSubmit={handleEditSubmit}
+            onCancel={() => setEditingEntry(null)}
+          />
+        )}
+
+        {editingMileage && (
+          <EditMileageSheet
+            title={`Edit mileage, ${editingMileage.date}`}
+            date={editingMileage.date}
+            miles={editingMileage.miles}
+            description={editingMileage.description}
+            odometerTrip={!!editingMileage.odometerTrip}
+            isSubmitting={isSubmittingEdit}
+            onSubmit={handleMileageEditSubmit}
+            onCancel={() => setEditingMileage(null)}
+          />
+        )}
       </div>
     );
   }
 
   // Home screen
+  const pendingActions = queuedActions.length;
+  const isSyncing = queuedActions.some((action) => action.status === "syncing");
   const weekTotal = weekTotalHours || getWeekTotal(timeEntries);
 
-  const thisWeekEntries = timeEntries
-    .filter((entry) => {
-      const now = new Date();
-      const startOfWeek = new Date(now);
-      startOfWeek.setDate(now.getDate() - now.getDay());
-      startOfWeek.setHours(0, 0, 0, 0);
-      const entryDate = new Date(entry.date);
-      return entryDate >= startOfWeek;
-    })
-    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const startOfWeek = weekStartKey(todayKey());
+  const thisWeekDays = groupHoursByDate(timeEntries.filter((entry) => entry.date >= startOfWeek));
+  const thisWeekTimesheet = timesheetFor(timesheets, startOfWeek);
+
+  // Last week still needs signing off if anything was logged in it
+  const lastWeekStart = addDays(startOfWeek, -7);
+  const lastWeekUnsubmitted =
+    timesheetFor(timesheets, lastWeekStart).status === "draft" &&
+    [...timeEntries, ...mileageEntries].some((entry) => entry.date >= lastWeekStart && entry.date < startOfWeek);
 
   return (
     <div className="flex min-h-screen flex-col px-6 py-8 safe-bottom">
-      {/* Confirmation toast */}
-      {showConfirmation && (
-        <div className="fixed left-1/2 top-4 z-50 -translate-x-1/2 transform">
-          <div className="flex items-center gap-2 rounded-full bg-green-600 px-4 py-2 text-white shadow-lg">
-            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-            </svg>
-            <span className="text-sm font-medium">{showConfirmation}</span>
-          </div>
-        </div>
-      )}
-
-      {/* Error toast */}
-      {showError && (
-        <div className="fixed left-1/2 top-4 z-50 -translate-x-1/2 transform">
-          <div className="flex items-center gap-2 rounded-full bg-red-600 px-4 py-2 text-white shadow-lg">
-            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-            <span className="text-sm font-medium">{showError}</span>
-          </div>
-        </div>
-      )}
+      {toasts}
 
       {/* Pending sync indicator */}
       {pendingActions > 0 && (
-        <div className="mb-4 flex items-center justify-center gap-2 text-sm text-amber-600">
-          <div className="h-2 w-2 animate-pulse rounded-full bg-amber-500"></div>
-          {pendingActions} action{pendingActions > 1 ? "s" : ""} pending sync
+        <div className="mb-4">
+          <button
+            onClick={() => setShowSyncDetails((prev) => !prev)}
+            className="flex w-full items-center justify-center gap-2 text-sm text-amber-600"
+          >
+            <div className="h-2 w-2 animate-pulse rounded-full bg-amber-500"></div>
+            {pendingActions} action{pendingActions > 1 ? "s" : ""} pending sync
+          </button>
+
+          {showSyncDetails && (
+            <div className="mt-2 rounded-xl bg-amber-50 p-3 ring-1 ring-amber-200">
+              <ul className="space-y-2">
+                {queuedActions.map((action) => (
+                  <li key={action.id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {describeQueuedAction(action)}
+                        {action.tech_name !== currentUser && ` (${action.tech_name})`}
+                      </p>
+                      {(action.status === "failed" || action.status === "rejected") && action.last_error && (
+                        <p className="text-xs text-red-600">
+                          {action.last_error} · {action.attempts} attempt{action.attempts > 1 ? "s" : ""}
+                        </p>
+                      )}
+                    </div>
+                    {action.status === "failed" || action.status === "rejected" ? (
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs font-medium uppercase text-red-600">{action.status}</span>
+                        {action.status === "rejected" && (
+                          <button
+                            onClick={() => retryRejected(action.id!)}
+                            disabled={isSyncing}
+                            className="text-xs font-medium text-gray-600 underline disabled:opacity-50"
+                          >
+                            Retry
+                          </button>
+                        )}
+                        <button
+                          onClick={() => discardAction(action.id!)}
+                          className="text-xs font-medium text-gray-600 underline"
+                        >
+                          Discard
+                        </button>
+                      </div>
+                    ) : (
+                      <span className="text-xs font-medium uppercase text-amber-600">{action.status}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={retrySync}
+                disabled={isSyncing}
+                className="mt-3 w-full rounded-lg bg-amber-500 py-2 text-sm font-semibold text-white transition-all active:scale-[0.98] active:bg-amber-600 disabled:opacity-70"
+              >
+                {isSyncing ? "Syncing..." : "Retry now"}
+              </button>
+            </div>
+          )}
         </div>
       )}
 
+      {staleNotice}
+
       {/* Header */}
       <div className="mb-8">
         <h1 className="text-xl font-bold text-gray-900">Atlanta Houseplants</h1>
@@ -660,12 +2058,46 @@ export default function Home() {
           <p className="mt-1 text-lg text-green-800">
             {clockState.clockInTime && formatTime(new Date(clockState.clockInTime))} ({elapsedTime})
           </p>
+          {clockState.breakStartTime && (
+            <p className="mt-2 flex items-center gap-2 text-sm font-medium text-amber-700">
+              <span className="h-2 w-2 rounded-full bg-amber-500"></span>
+              On break since {formatTime(new Date(clockState.breakStartTime))}
+            </p>
+          )}
         </div>
       )}
 
+      {/* Job site picker */}
+      {sites.length > 0 && (
+        <label className="mb-4 block text-sm font-medium text-gray-700">
+          {clockState.isClockedIn ? "Working at" : "Clock in at"}
+          <select
+            value={(clockState.isClockedIn ? clockState.siteId : nextSiteId) ?? ""}
+            onChange={(e) => handleSiteChange(e.target.value)}
+            disabled={isButtonDisabled}
+            className="mt-1 w-full rounded-lg border border-gray-300 bg-white px-4 py-3 text-base text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500 disabled:opacity-70"
+          >
+            <option value="" disabled={clockState.isClockedIn}>
+              No site
+            </option>
+            {[...new Set(sites.map((site) => site.client))].map((client) => (
+              <optgroup key={client} label={client}>
+                {sites
+                  .filter((site) => site.client === client)
+                  .map((site) => (
+                    <option key={site.site_id} value={site.site_id}>
+                      {site.name}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+      )}
+
       {/* Main action button */}
       <button
-        onClick={clockState.isClockedIn ? handleClockOut : handleClockIn}
+        onClick={usesOdometer ? openOdometerPrompt : clockState.isClockedIn ? handleClockOut : handleClockIn}
         disabled={isButtonDisabled}
         className={`mb-4 w-full rounded-xl py-5 text-xl font-bold text-white shadow-lg transition-all active:scale-[0.98] disabled:opacity-70 ${
           clockState.isClockedIn
@@ -676,6 +2108,21 @@ export default function Home() {
         {clockState.isClockedIn ? "CLOCK OUT" : "CLOCK IN"}
       </button>
 
+      {/* Break button */}
+      {clockState.isClockedIn && (
+        <button
+          onClick={handleBreak}
+          disabled={isButtonDisabled}
+          className={`mb-4 w-full rounded-xl py-4 text-lg font-medium shadow-sm transition-all active:scale-[0.98] disabled:opacity-70 ${
+            clockState.breakStartTime
+              ? "bg-amber-500 text-white active:bg-amber-600"
+              : "bg-white text-amber-700 ring-1 ring-amber-300 active:bg-amber-50"
+          }`}
+        >
+          {clockState.breakStartTime ? "End Break" : "Start Break"}
+        </button>
+      )}
+
       {/* Add mileage button */}
       <button
         onClick={() => setCurrentScreen("mileage")}
@@ -691,22 +2138,26 @@ export default function Home() {
           className="w-full text-left"
         >
           <div className="mb-3 flex items-center justify-between">
-            <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500">
-              This Week
-            </h2>
+            <div className="flex items-center gap-2">
+              <h2 className="text-sm font-semibold uppercase tracking-wide text-gray-500">
+                This Week
+              </h2>
+              <WeekStatusBadge status={thisWeekTimesheet.status} />
+            </div>
             <span className="text-2xl font-bold text-gray-900">{weekTotal}h</span>
           </div>
 
-          {thisWeekEntries.length > 0 ? (
+          {thisWeekDays.length > 0 ? (
             <div className="flex flex-wrap gap-2">
-              {thisWeekEntries.map((entry) => (
+              {thisWeekDays.map((day) => (
                 <div
-                  key={entry.shiftId}
+                  key={day.date}
                   className="rounded-lg bg-gray-100 px-3 py-1 text-sm"
                 >
-                  <span className="font-medium text-gray-700">{getDayName(entry.date)}:</span>{" "}
+                  <span className="font-medium text-gray-700">{getDayName(day.date)}:</span>{" "}
                   <span className="text-gray-600">
-                    {entry.hoursWorked !== null ? `${entry.hoursWorked}` : "--"}
+                    {day.hoursWorked !== null ? `${day.hoursWorked}` : "--"}
+                    {day.shifts > 1 && ` (${day.shifts} shifts)`}
                   </span>
                 </div>
               ))}
@@ -717,10 +2168,31 @@ export default function Home() {
 
           <p className="mt-3 text-sm text-green-600">View full history →</p>
         </button>
+
+        <button
+          onClick={() => openWeekReview(startOfWeek)}
+          className="mt-3 w-full border-t border-gray-100 pt-3 text-left text-sm font-medium text-green-600"
+        >
+          {thisWeekTimesheet.status === "draft" ? "Review week →" : "View submitted week →"}
+        </button>
+        {lastWeekUnsubmitted && (
+          <button
+            onClick={() => openWeekReview(lastWeekStart)}
+            className="mt-2 w-full text-left text-sm font-medium text-amber-600"
+          >
+            Last week isn&apos;t submitted yet. Review it →
+          </button>
+        )}
       </div>
 
-      {/* Switch user link */}
-      <div className="mt-auto pt-8">
+      {/* Settings and switch user links */}
+      <div className="mt-auto space-y-3 pt-8">
+        <button
+          onClick={() => setCurrentScreen("settings")}
+          className="w-full text-center text-sm text-green-600"
+        >
+          Reminder settings
+        </button>
         <button
           onClick={switchUser}
           className="w-full text-center text-sm text-gray-400"
@@ -728,6 +2200,40 @@ export default function Home() {
           Not {currentUser}? Tap to switch
         </button>
       </div>
+
+      {forgottenShift && (
+        <EditEntrySheet
+          title="Missed clock-out"
+          message={`You're still clocked in from ${getDayName(forgottenShift.date)} at ${formatTime(
+            new Date(forgottenShift.clockIn)
+          )}. Enter when you actually finished before clocking in again.`}
+          clockIn={forgottenShift.clockIn}
+          clockOut={null}
+          isSubmitting={isSubmittingEdit}
+          onSubmit={handleForgottenClockOut}
+        />
+      )}
+
+      {statusMismatch && !forgottenShift && (
+        <StatusMismatchSheet
+          shown={describeClockState(clockState, sites)}
+          latest={describeClockState(statusMismatch, sites)}
+          onUseLatest={adoptLatestStatus}
+          onKeep={keepShownStatus}
+        />
+      )}
+
+      {odometerPrompt && (
+        <OdometerSheet
+          kind={odometerPrompt.kind}
+          shiftId={odometerPrompt.shiftId}
+          defaultVehicleId={technician?.vehicle_id ?? ""}
+          lastReading={odometerPrompt.lastReading}
+          onSubmit={handleOdometerPunch}
+          onSkip={() => handleOdometerPunch(null)}
+          onCancel={() => setOdometerPrompt(null)}
+        />
+      )}
     </div>
   );
 }
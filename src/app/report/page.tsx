@@ -0,0 +1,27 @@
+import type { Metadata } from "next";
+import TimesheetReportView from "@/components/TimesheetReportView";
+
+export const metadata: Metadata = {
+  title: "Timesheet report - AHP Time Tracker",
+};
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function param(params: SearchParams, name: string): string | null {
+  const value = params[name];
+  return typeof value === "string" && value !== "" ? value : null;
+}
+
+// /report?tech_name=...&start=YYYY-MM-DD&end=YYYY-MM-DD
+// Without a tech_name it's the signed-in tech's own timesheet; without a
+// period it's the last pay period.
+export default async function ReportPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = await searchParams;
+  return (
+    <TimesheetReportView
+      techName={param(params, "tech_name")}
+      start={param(params, "start")}
+      end={param(params, "end")}
+    />
+  );
+}
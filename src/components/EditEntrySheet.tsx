@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { fromWallClockInput, toWallClockInput } from "@/lib/businessTime";
+
+export type EditableField = "clock_in" | "clock_out";
+
+export interface EditEntrySubmission {
+  field: EditableField;
+  // null when setting the missing clock-out of an open shift
+  oldValue: string | null;
+  newValue: string;
+  reason: string;
+}
+
+interface EditEntrySheetProps {
+  title: string;
+  // Shown above the form when the edit isn't the tech's idea
+  message?: string;
+  clockIn: string;
+  clockOut: string | null;
+  isSubmitting: boolean;
+  onSubmit: (submission: EditEntrySubmission) => void;
+  // Without it the sheet can't be dismissed and only the clock-out can be set
+  onCancel?: () => void;
+}
+
+// <input type="datetime-local"> has no zone; its value is business-timezone wall time
+function defaultValueFor(field: EditableField, clockIn: string, clockOut: string | null): string {
+  if (field === "clock_in") return toWallClockInput(clockIn);
+  return toWallClockInput(clockOut ?? new Date());
+}
+
+export default function EditEntrySheet({
+  title,
+  message,
+  clockIn,
+  clockOut,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: EditEntrySheetProps) {
+  // A missing clock-out is the usual reason for an edit, so start there
+  const [field, setField] = useState<EditableField>(clockOut ? "clock_in" : "clock_out");
+  const [value, setValue] = useState(defaultValueFor(field, clockIn, clockOut));
+  const [reason, setReason] = useState("");
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const selectField = (next: EditableField) => {
+    setField(next);
+    setValue(defaultValueFor(next, clockIn, clockOut));
+    setValidationError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newTime = fromWallClockInput(value);
+    if (!newTime) {
+      setValidationError("Enter a valid date and time");
+      return;
+    }
+    if (newTime.getTime() > Date.now()) {
+      setValidationError("Time can't be in the future");
+      return;
+    }
+    if (field === "clock_in" && clockOut && newTime >= new Date(clockOut)) {
+      setValidationError("Clock in must be before clock out");
+      return;
+    }
+    if (field === "clock_out" && newTime <= new Date(clockIn)) {
+      setValidationError("Clock out must be after clock in");
+      return;
+    }
+    if (!reason.trim()) {
+      setValidationError("Please give a reason for the change");
+      return;
+    }
+
+    onSubmit({
+      field,
+      oldValue: field === "clock_in" ? clockIn : clockOut,
+      newValue: newTime.toISOString(),
+      reason: reason.trim(),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-end justify-center bg-black/40" onClick={onCancel}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md space-y-4 rounded-t-2xl bg-white px-6 pb-8 pt-6 safe-bottom"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">{title}</h2>
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="text-gray-400">
+              <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+
+        {onCancel && (
+          <div className="grid grid-cols-2 gap-2">
+            {(["clock_in", "clock_out"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => selectField(option)}
+                className={`rounded-lg py-2 text-sm font-medium ring-1 ${
+                  field === option
+                    ? "bg-green-600 text-white ring-green-600"
+                    : "bg-white text-gray-700 ring-gray-300"
+                }`}
+              >
+                {option === "clock_in" ? "Clock in" : "Clock out"}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">
+            Correct {field === "clock_in" ? "clock-in" : "clock-out"} time
+          </label>
+          <input
+            type="datetime-local"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">Reason</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g., Forgot to clock out after last client"
+            rows={2}
+            className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+            required
+          />
+        </div>
+
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full rounded-xl bg-green-600 py-4 text-lg font-semibold text-white transition-all active:scale-[0.98] active:bg-green-700 disabled:opacity-70"
+        >
+          {isSubmitting ? "Submitting..." : "Submit Change"}
+        </button>
+      </form>
+    </div>
+  );
+}
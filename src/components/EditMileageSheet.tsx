@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import { todayKey } from "@/lib/businessTime";
+import type { MileageCorrection } from "@/lib/api";
+
+export type EditMileageSubmission =
+  | { action: "edit"; correction: MileageCorrection; reason: string }
+  | { action: "delete"; reason: string };
+
+interface EditMileageSheetProps {
+  title: string;
+  date: string;
+  miles: number;
+  description: string;
+  // Odometer trips keep the miles their readings worked out
+  odometerTrip: boolean;
+  isSubmitting: boolean;
+  onSubmit: (submission: EditMileageSubmission) => void;
+  onCancel: () => void;
+}
+
+export default function EditMileageSheet({
+  title,
+  date: originalDate,
+  miles: originalMiles,
+  description: originalDescription,
+  odometerTrip,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}: EditMileageSheetProps) {
+  const [action, setAction] = useState<"edit" | "delete">("edit");
+  const [date, setDate] = useState(originalDate);
+  const [miles, setMiles] = useState(String(originalMiles));
+  const [description, setDescription] = useState(originalDescription);
+  const [reason, setReason] = useState("");
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const selectAction = (next: "edit" | "delete") => {
+    setAction(next);
+    setValidationError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (action === "delete") {
+      if (!reason.trim()) {
+        setValidationError("Please give a reason for deleting this entry");
+        return;
+      }
+      onSubmit({ action, reason: reason.trim() });
+      return;
+    }
+
+    const parsedMiles = parseFloat(miles);
+    if (!date) {
+      setValidationError("Pick a date");
+      return;
+    }
+    if (date > todayKey()) {
+      setValidationError("Date can't be in the future");
+      return;
+    }
+    if (!Number.isFinite(parsedMiles) || parsedMiles < 0) {
+      setValidationError("Enter the miles driven");
+      return;
+    }
+    if (!description.trim()) {
+      setValidationError("Add a description");
+      return;
+    }
+    if (date === originalDate && parsedMiles === originalMiles && description.trim() === originalDescription) {
+      setValidationError("Nothing has changed");
+      return;
+    }
+    if (!reason.trim()) {
+      setValidationError("Please give a reason for the change");
+      return;
+    }
+
+    onSubmit({
+      action,
+      correction: { date, miles: parsedMiles, description: description.trim() },
+      reason: reason.trim(),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-end justify-center bg-black/40" onClick={onCancel}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md space-y-4 rounded-t-2xl bg-white px-6 pb-8 pt-6 safe-bottom"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">{title}</h2>
+          <button type="button" onClick={onCancel} className="text-gray-400">
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(["edit", "delete"] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => selectAction(option)}
+              className={`rounded-lg py-2 text-sm font-medium ring-1 ${
+                action === option
+                  ? option === "delete"
+                    ? "bg-red-600 text-white ring-red-600"
+                    : "bg-green-600 text-white ring-green-600"
+                  : "bg-white text-gray-700 ring-gray-300"
+              }`}
+            >
+              {option === "edit" ? "Correct" : "Delete"}
+            </button>
+          ))}
+        </div>
+
+        {action === "edit" ? (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">Date</label>
+                <input
+                  type="date"
+                  value={date}
+                  max={todayKey()}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-sm font-medium text-gray-700">Miles</label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  step="0.1"
+                  min="0"
+                  value={miles}
+                  onChange={(e) => setMiles(e.target.value)}
+                  disabled={odometerTrip}
+                  className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500 disabled:bg-gray-100 disabled:text-gray-500"
+                  required
+                />
+              </div>
+            </div>
+            {odometerTrip && (
+              <p className="text-xs text-gray-500">
+                Miles for odometer trips come from the readings. Delete the trip and log the miles by hand if they&apos;re
+                wrong.
+              </p>
+            )}
+
+            <div>
+              <label className="mb-1 block text-sm font-medium text-gray-700">Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+                required
+              />
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">
+            The entry comes off your mileage. Your manager can still see what it was and why it was deleted.
+          </p>
+        )}
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">Reason</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={action === "edit" ? "e.g., Typed 150 instead of 15" : "e.g., Logged the same trip twice"}
+            rows={2}
+            className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+            required
+          />
+        </div>
+
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className={`w-full rounded-xl py-4 text-lg font-semibold text-white transition-all active:scale-[0.98] disabled:opacity-70 ${
+            action === "delete" ? "bg-red-600 active:bg-red-700" : "bg-green-600 active:bg-green-700"
+          }`}
+        >
+          {isSubmitting ? "Submitting..." : action === "delete" ? "Delete Entry" : "Submit Change"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { formatDateKey, todayKey } from "@/lib/businessTime";
+import { addMonths, calendarWeeks, isInRange, monthKeyFor, type HistoryRange } from "@/lib/historyRange";
+
+interface HistoryCalendarProps {
+  month: string;
+  hoursByDate: Map<string, number>;
+  range: HistoryRange;
+  // Days before this haven't been fetched yet
+  loadedSince: string;
+  isLoading: boolean;
+  onChangeMonth: (month: string) => void;
+  onSelectDay: (dateKey: string) => void;
+}
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+export default function HistoryCalendar({
+  month,
+  hoursByDate,
+  range,
+  loadedSince,
+  isLoading,
+  onChangeMonth,
+  onSelectDay,
+}: HistoryCalendarProps) {
+  const today = todayKey();
+  const monthTotal = [...hoursByDate.entries()]
+    .filter(([date]) => monthKeyFor(date) === month)
+    .reduce((sum, [, hours]) => sum + hours, 0);
+
+  return (
+    <div className="rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200">
+      <div className="mb-3 flex items-center justify-between">
+        <button
+          onClick={() => onChangeMonth(addMonths(month, -1))}
+          className="px-2 text-gray-600"
+          aria-label="Previous month"
+        >
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div className="text-center">
+          <p className="font-medium text-gray-900">{formatDateKey(month, { month: "long", year: "numeric" })}</p>
+          <p className="text-xs text-gray-500">{isLoading ? "Loading..." : `${Math.round(monthTotal * 100) / 100}h`}</p>
+        </div>
+        <button
+          onClick={() => onChangeMonth(addMonths(month, 1))}
+          disabled={month >= monthKeyFor(today)}
+          className="px-2 text-gray-600 disabled:opacity-30"
+          aria-label="Next month"
+        >
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAYS.map((day, i) => (
+          <div key={i} className="text-xs font-medium text-gray-400">
+            {day}
+          </div>
+        ))}
+        {calendarWeeks(month).flat().map((date) => {
+          const hours = hoursByDate.get(date);
+          const inMonth = monthKeyFor(date) === month;
+          const selected = range.preset !== "recent" && isInRange(range, date);
+          return (
+            <button
+              key={date}
+              onClick={() => onSelectDay(date)}
+              disabled={date > today || date < loadedSince}
+              className={`rounded-md py-1 ${selected ? "bg-green-50 ring-1 ring-green-500" : ""} ${
+                inMonth ? "text-gray-900" : "text-gray-300"
+              } disabled:text-gray-300`}
+            >
+              <span className="block text-xs">{Number(date.slice(8))}</span>
+              <span className={`block text-xs font-semibold ${hours ? "text-green-700" : "text-transparent"}`}>
+                {hours ? `${Math.round(hours * 100) / 100}h` : "-"}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState } from "react";
+import PhotoPicker from "@/components/PhotoPicker";
+import type { OdometerReading, PhotoUpload } from "@/lib/backend/types";
+import { MAX_SHIFT_MILES, validateOdometerReading } from "@/lib/odometer";
+
+export interface OdometerSubmission {
+  vehicleId: string;
+  reading: number;
+  photo?: PhotoUpload;
+}
+
+interface OdometerSheetProps {
+  kind: OdometerReading["kind"];
+  shiftId: string | null;
+  defaultVehicleId: string;
+  lastReading: OdometerReading | null;
+  onSubmit: (submission: OdometerSubmission) => void;
+  onSkip: () => void;
+  onCancel: () => void;
+}
+
+export default function OdometerSheet({
+  kind,
+  shiftId,
+  defaultVehicleId,
+  lastReading,
+  onSubmit,
+  onSkip,
+  onCancel,
+}: OdometerSheetProps) {
+  const [vehicleId, setVehicleId] = useState(defaultVehicleId);
+  const [value, setValue] = useState("");
+  const [photos, setPhotos] = useState<PhotoUpload[]>([]);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // The last reading only applies to the vehicle it was fetched for. Offline, or
+  // with the start reading still queued, the server has the final say.
+  const previous = lastReading && lastReading.vehicle_id === vehicleId.trim() ? lastReading : null;
+  const checkAgainstPrevious = previous && (kind === "start" || previous.shift_id === shiftId);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const reading = parseFloat(value);
+    if (!vehicleId.trim()) {
+      setValidationError("Enter the vehicle");
+      return;
+    }
+    const error = checkAgainstPrevious
+      ? validateOdometerReading(kind, reading, shiftId ?? "", previous)
+      : validateOdometerReading("start", reading, "", null);
+    if (error) {
+      setValidationError(error);
+      return;
+    }
+
+    onSubmit({ vehicleId: vehicleId.trim(), reading, photo: photos[0] });
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-end justify-center bg-black/40" onClick={onCancel}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md space-y-4 rounded-t-2xl bg-white px-6 pb-8 pt-6 safe-bottom"
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-gray-900">
+            {kind === "start" ? "Starting odometer" : "Ending odometer"}
+          </h2>
+          <button type="button" onClick={onCancel} className="text-gray-400">
+            <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">Vehicle</label>
+          <input
+            type="text"
+            value={vehicleId}
+            onChange={(e) => setVehicleId(e.target.value)}
+            placeholder="e.g., Truck 2"
+            className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="mb-1 block text-sm font-medium text-gray-700">Odometer reading</label>
+          <input
+            type="number"
+            inputMode="decimal"
+            step="0.1"
+            min="0"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+            required
+          />
+          {previous && (
+            <p className="mt-1 text-xs text-gray-500">
+              {previous.kind === "start" && previous.shift_id === shiftId ? "Started this shift at" : "Last reading"}{" "}
+              {previous.reading}
+              {kind === "end" && ` · up to ${MAX_SHIFT_MILES} mi per shift`}
+            </p>
+          )}
+        </div>
+
+        <PhotoPicker photos={photos} kinds={["odometer"]} max={1} onChange={setPhotos} />
+
+        {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+        <button
+          type="submit"
+          className="w-full rounded-xl bg-green-600 py-4 text-lg font-semibold text-white transition-all active:scale-[0.98] active:bg-green-700"
+        >
+          {kind === "start" ? "Clock In" : "Clock Out"}
+        </button>
+        <button type="button" onClick={onSkip} className="w-full py-2 text-sm font-medium text-gray-500">
+          Skip reading
+        </button>
+      </form>
+    </div>
+  );
+}
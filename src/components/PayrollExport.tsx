@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { formatMoney } from "@/lib/format";
+import { downloadPayroll, fetchPayroll } from "@/lib/managerApi";
+import {
+  defaultPayPeriod,
+  techsWithoutRate,
+  type ClientHoursLine,
+  type PayrollFormat,
+  type PayrollLine,
+} from "@/lib/payroll";
+
+export default function PayrollExport() {
+  const [period, setPeriod] = useState(defaultPayPeriod);
+  const [lines, setLines] = useState<PayrollLine[] | null>(null);
+  const [clients, setClients] = useState<ClientHoursLine[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const preview = async () => {
+    setIsWorking(true);
+    const result = await fetchPayroll(period.start, period.end);
+    setLines(result.success ? result.lines : null);
+    setClients(result.success ? result.clients : []);
+    setError(result.success ? null : result.error || "Failed to load payroll");
+    setIsWorking(false);
+  };
+
+  const download = async (format: PayrollFormat) => {
+    setIsWorking(true);
+    const result = await downloadPayroll(period.start, period.end, format);
+    setError(result.success ? null : result.error || "Download failed");
+    setIsWorking(false);
+  };
+
+  const updatePeriod = (field: "start" | "end", value: string) => {
+    setPeriod((prev) => ({ ...prev, [field]: value }));
+    setLines(null);
+    setClients([]);
+  };
+
+  // The server refuses pay files then too; this says so before anyone tries
+  const unpriced = lines ? techsWithoutRate(lines) : [];
+
+  return (
+    <div className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-gray-200">
+      <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500">Payroll Export</h2>
+
+      <div className="mb-3 grid grid-cols-2 gap-3">
+        <label className="text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={period.start}
+            onChange={(e) => updatePeriod("start", e.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={period.end}
+            onChange={(e) => updatePeriod("end", e.target.value)}
+            className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+          />
+        </label>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      {unpriced.length > 0 && (
+        <p className="mb-3 rounded-lg bg-red-50 p-2 text-sm font-medium text-red-700 ring-1 ring-red-200">
+          No hourly rate for {unpriced.join(", ")}. Their hours would be paid $0, so CSV and QuickBooks exports are
+          blocked until a rate is set.
+        </p>
+      )}
+
+      {lines && (
+        <div className="mb-3 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-gray-500">
+              <tr>
+                <th className="py-1 pr-2">Tech</th>
+                <th className="py-1 pr-2 text-right">Reg h</th>
+                <th className="py-1 pr-2 text-right">OT h</th>
+                <th className="py-1 pr-2 text-right">Paid mi</th>
+                <th className="py-1 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-900">
+              {lines.map((line) => (
+                <tr key={line.tech_name} className="border-t border-gray-100">
+                  <td className="py-1 pr-2">
+                    {line.tech_name}
+                    {line.hourly_rate === null && (
+                      <span className="ml-1 text-xs text-red-600">(no rate)</span>
+                    )}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{line.regular_hours}</td>
+                  <td className="py-1 pr-2 text-right">{line.overtime_hours}</td>
+                  <td className="py-1 pr-2 text-right">{line.reimbursable_miles}</td>
+                  <td className="py-1 text-right font-medium">{formatMoney(line.total_pay)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {lines && clients.some((line) => line.site_id !== null) && (
+        <div className="mb-3 overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-gray-500">
+              <tr>
+                <th className="py-1 pr-2">Client / site</th>
+                <th className="py-1 pr-2 text-right">Hours</th>
+                <th className="py-1 text-right">Labor</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-900">
+              {clients.map((line) => (
+                <tr key={line.site_id ?? ""} className="border-t border-gray-100">
+                  <td className="py-1 pr-2">
+                    {line.client}
+                    <span className="block text-xs text-gray-500">{line.site_name}</span>
+                  </td>
+                  <td className="py-1 pr-2 text-right">{line.hours}</td>
+                  <td className="py-1 text-right font-medium">{formatMoney(line.labor_cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        <button
+          onClick={preview}
+          disabled={isWorking}
+          className="rounded-lg bg-white py-2 text-sm font-medium text-gray-700 ring-1 ring-gray-300 transition-all active:bg-gray-50 disabled:opacity-70"
+        >
+          Preview
+        </button>
+        <button
+          onClick={() => download("csv")}
+          disabled={isWorking || unpriced.length > 0}
+          className="rounded-lg bg-green-600 py-2 text-sm font-medium text-white transition-all active:bg-green-700 disabled:opacity-70"
+        >
+          CSV
+        </button>
+        <button
+          onClick={() => download("iif")}
+          disabled={isWorking || unpriced.length > 0}
+          className="rounded-lg bg-green-600 py-2 text-sm font-medium text-white transition-all active:bg-green-700 disabled:opacity-70"
+        >
+          QuickBooks
+        </button>
+        <button
+          onClick={() => download("clients")}
+          disabled={isWorking}
+          className="rounded-lg bg-green-600 py-2 text-sm font-medium text-white transition-all active:bg-green-700 disabled:opacity-70"
+        >
+          By client
+        </button>
+      </div>
+    </div>
+  );
+}
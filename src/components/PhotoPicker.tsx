@@ -0,0 +1,95 @@
+"use client";
+
+import Image from "next/image";
+import { useState } from "react";
+import type { PhotoKind, PhotoUpload } from "@/lib/backend/types";
+import { preparePhoto } from "@/lib/photos";
+
+interface PhotoPickerProps {
+  photos: PhotoUpload[];
+  kinds: PhotoKind[];
+  max: number;
+  onChange: (photos: PhotoUpload[]) => void;
+}
+
+const KIND_LABELS: Record<PhotoKind, string> = {
+  odometer: "Odometer photo",
+  receipt: "Receipt photo",
+};
+
+// Camera capture for new entries; photos are compressed as soon as they're taken
+export default function PhotoPicker({ photos, kinds, max, onChange }: PhotoPickerProps) {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const addPhoto = async (kind: PhotoKind, file: File | undefined) => {
+    if (!file) return;
+    setIsProcessing(true);
+    const photo = await preparePhoto(file, kind);
+    setIsProcessing(false);
+
+    if (!photo) {
+      setError("Couldn't use that photo. Try taking it again.");
+      return;
+    }
+    setError(null);
+    onChange([...photos, photo]);
+  };
+
+  return (
+    <div>
+      {photos.length > 0 && (
+        <div className="mb-2 flex flex-wrap gap-2">
+          {photos.map((photo) => (
+            <div key={photo.photo_id} className="relative">
+              <Image
+                src={photo.thumbnail}
+                alt={KIND_LABELS[photo.kind]}
+                width={64}
+                height={64}
+                unoptimized
+                className="h-16 w-16 rounded-lg object-cover ring-1 ring-gray-200"
+              />
+              <button
+                type="button"
+                onClick={() => onChange(photos.filter((p) => p.photo_id !== photo.photo_id))}
+                className="absolute -right-2 -top-2 flex h-6 w-6 items-center justify-center rounded-full bg-gray-700 text-xs text-white"
+                aria-label="Remove photo"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {photos.length < max && (
+        <div className="flex gap-2">
+          {kinds.map((kind) => (
+            <label
+              key={kind}
+              className={`flex-1 cursor-pointer rounded-lg bg-white py-2 text-center text-sm font-medium text-gray-700 ring-1 ring-gray-300 active:bg-gray-50 ${
+                isProcessing ? "opacity-70" : ""
+              }`}
+            >
+              {isProcessing ? "Processing..." : `+ ${KIND_LABELS[kind]}`}
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                disabled={isProcessing}
+                onChange={(e) => {
+                  addPhoto(kind, e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+                className="hidden"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
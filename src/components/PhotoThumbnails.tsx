@@ -0,0 +1,69 @@
+"use client";
+
+import Image from "next/image";
+import { useState } from "react";
+import { fetchPhoto, type Photo } from "@/lib/api";
+
+interface PhotoThumbnailsProps {
+  techName: string;
+  photos: Photo[];
+}
+
+// Thumbnails ride along with the entry; the full image is fetched when tapped
+export default function PhotoThumbnails({ techName, photos }: PhotoThumbnailsProps) {
+  const [openImage, setOpenImage] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (photos.length === 0) return null;
+
+  const open = async (photo: Photo) => {
+    setLoadingId(photo.photo_id);
+    const image = await fetchPhoto(techName, photo.photo_id);
+    setLoadingId(null);
+    setError(image ? null : navigator.onLine ? "Couldn't load photo" : "Photo isn't available offline");
+    setOpenImage(image);
+  };
+
+  return (
+    <>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {photos.map((photo) => (
+          <button
+            key={photo.photo_id}
+            type="button"
+            onClick={() => open(photo)}
+            className={loadingId === photo.photo_id ? "opacity-50" : ""}
+          >
+            <Image
+              src={photo.thumbnail}
+              alt={photo.kind === "odometer" ? "Odometer photo" : "Receipt photo"}
+              width={48}
+              height={48}
+              unoptimized
+              className="h-12 w-12 rounded-md object-cover ring-1 ring-gray-200"
+            />
+          </button>
+        ))}
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+
+      {openImage && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+          onClick={() => setOpenImage(null)}
+        >
+          {/* Photos are at most 1600px; auto sizing shows them at their own size */}
+          <Image
+            src={openImage}
+            alt="Attached photo"
+            width={1600}
+            height={1600}
+            unoptimized
+            className="h-auto max-h-full w-auto max-w-full rounded-lg"
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+
+interface PinEntryProps {
+  techName: string;
+  error: string | null;
+  isSubmitting: boolean;
+  onSubmit: (pin: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const MIN_PIN_LENGTH = 4;
+const MAX_PIN_LENGTH = 8;
+const KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "back", "0", "enter"] as const;
+
+export default function PinEntry({ techName, error, isSubmitting, onSubmit, onCancel }: PinEntryProps) {
+  const [pin, setPin] = useState("");
+
+  const submit = async () => {
+    if (pin.length < MIN_PIN_LENGTH || isSubmitting) return;
+    const success = await onSubmit(pin);
+    if (!success) setPin("");
+  };
+
+  const pressKey = (key: (typeof KEYS)[number]) => {
+    if (key === "back") {
+      setPin((prev) => prev.slice(0, -1));
+    } else if (key === "enter") {
+      submit();
+    } else if (pin.length < MAX_PIN_LENGTH) {
+      setPin((prev) => prev + key);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-sm">
+      <button onClick={onCancel} className="mb-6 flex items-center text-gray-600">
+        <svg className="mr-1 h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        Not {techName}?
+      </button>
+
+      <h1 className="mb-2 text-center text-2xl font-bold text-gray-900">Hi {techName}</h1>
+      <p className="mb-6 text-center text-lg text-gray-600">Enter your PIN</p>
+
+      <div className="mb-4 flex h-4 justify-center gap-3">
+        {Array.from({ length: Math.max(pin.length, MIN_PIN_LENGTH) }).map((_, i) => (
+          <div
+            key={i}
+            className={`h-4 w-4 rounded-full ${i < pin.length ? "bg-green-600" : "bg-gray-200"}`}
+          ></div>
+        ))}
+      </div>
+
+      <p className="mb-4 h-5 text-center text-sm text-red-600">{error}</p>
+
+      <div className="grid grid-cols-3 gap-3">
+        {KEYS.map((key) => (
+          <button
+            key={key}
+            onClick={() => pressKey(key)}
+            disabled={isSubmitting || (key === "enter" && pin.length < MIN_PIN_LENGTH)}
+            className={`rounded-xl py-4 text-xl font-semibold shadow-sm ring-1 transition-all active:scale-[0.98] disabled:opacity-50 ${
+              key === "enter"
+                ? "bg-green-600 text-white ring-green-600 active:bg-green-700"
+                : "bg-white text-gray-900 ring-gray-200 active:bg-gray-50"
+            }`}
+          >
+            {key === "back" ? "⌫" : key === "enter" ? (isSubmitting ? "..." : "Go") : key}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
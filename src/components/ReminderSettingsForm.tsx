@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import type { ReminderSettings } from "@/lib/reminders";
+
+interface ReminderSettingsFormProps {
+  settings: ReminderSettings;
+  // Set when the browser can't or won't show notifications
+  warning: string | null;
+  onSave: (settings: ReminderSettings) => void;
+}
+
+interface ReminderRowProps {
+  title: string;
+  description: string;
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  children: React.ReactNode;
+}
+
+function ReminderRow({ title, description, enabled, onToggle, children }: ReminderRowProps) {
+  return (
+    <div className="rounded-xl bg-white p-4 shadow-sm ring-1 ring-gray-200">
+      <label className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="mt-1 h-5 w-5 accent-green-600"
+        />
+        <span>
+          <span className="block font-medium text-gray-900">{title}</span>
+          <span className="block text-sm text-gray-500">{description}</span>
+        </span>
+      </label>
+      {enabled && <div className="mt-3 pl-8">{children}</div>}
+    </div>
+  );
+}
+
+const inputClass =
+  "w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500";
+
+export default function ReminderSettingsForm({ settings, warning, onSave }: ReminderSettingsFormProps) {
+  const [clockedInHours, setClockedInHours] = useState(String(settings.clocked_in_hours ?? 10));
+  const [shiftEndTime, setShiftEndTime] = useState(settings.shift_end_time ?? "17:00");
+  const [mileageTime, setMileageTime] = useState(settings.mileage_time ?? "18:00");
+  const [enabled, setEnabled] = useState({
+    clockedIn: settings.clocked_in_hours !== null,
+    shiftEnd: settings.shift_end_time !== null,
+    mileage: settings.mileage_time !== null,
+  });
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const hours = parseFloat(clockedInHours);
+    if (enabled.clockedIn && (!Number.isFinite(hours) || hours <= 0 || hours > 24)) {
+      setValidationError("Hours must be between 0 and 24");
+      return;
+    }
+
+    onSave({
+      clocked_in_hours: enabled.clockedIn ? hours : null,
+      shift_end_time: enabled.shiftEnd && shiftEndTime ? shiftEndTime : null,
+      mileage_time: enabled.mileage && mileageTime ? mileageTime : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex-1 space-y-4">
+      {warning && <p className="rounded-lg bg-amber-50 p-3 text-sm text-amber-700">{warning}</p>}
+
+      <ReminderRow
+        title="Still clocked in"
+        description="When you've been on the clock a long time"
+        enabled={enabled.clockedIn}
+        onToggle={(on) => setEnabled((prev) => ({ ...prev, clockedIn: on }))}
+      >
+        <label className="mb-1 block text-sm font-medium text-gray-700">After this many hours</label>
+        <input
+          type="number"
+          inputMode="decimal"
+          step="0.5"
+          min="0.5"
+          max="24"
+          value={clockedInHours}
+          onChange={(e) => setClockedInHours(e.target.value)}
+          className={inputClass}
+        />
+      </ReminderRow>
+
+      <ReminderRow
+        title="End of usual shift"
+        description="If you're still clocked in when your day normally ends"
+        enabled={enabled.shiftEnd}
+        onToggle={(on) => setEnabled((prev) => ({ ...prev, shiftEnd: on }))}
+      >
+        <label className="mb-1 block text-sm font-medium text-gray-700">Usual end time</label>
+        <input type="time" value={shiftEndTime} onChange={(e) => setShiftEndTime(e.target.value)} className={inputClass} />
+      </ReminderRow>
+
+      <ReminderRow
+        title="Log mileage"
+        description="On days you worked but haven't logged any miles"
+        enabled={enabled.mileage}
+        onToggle={(on) => setEnabled((prev) => ({ ...prev, mileage: on }))}
+      >
+        <label className="mb-1 block text-sm font-medium text-gray-700">Remind me at</label>
+        <input type="time" value={mileageTime} onChange={(e) => setMileageTime(e.target.value)} className={inputClass} />
+      </ReminderRow>
+
+      {validationError && <p className="text-sm text-red-600">{validationError}</p>}
+
+      <button
+        type="submit"
+        className="mt-6 w-full rounded-xl bg-green-600 py-4 text-lg font-semibold text-white transition-all active:scale-[0.98] active:bg-green-700"
+      >
+        Save Reminders
+      </button>
+    </form>
+  );
+}
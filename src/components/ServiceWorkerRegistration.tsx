@@ -0,0 +1,17 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Registers public/sw.js so the app shell and last known data work offline.
+// Skipped in development, where a caching worker would fight hot reload.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Failed to register service worker:", error);
+    });
+  }, []);
+
+  return null;
+}
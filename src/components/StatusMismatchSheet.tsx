@@ -0,0 +1,46 @@
+"use client";
+
+interface StatusMismatchSheetProps {
+  // What this screen shows and what the server has now, already put into words
+  shown: string;
+  latest: string;
+  onUseLatest: () => void;
+  onKeep: () => void;
+}
+
+export default function StatusMismatchSheet({ shown, latest, onUseLatest, onKeep }: StatusMismatchSheetProps) {
+  return (
+    <div className="fixed inset-0 z-40 flex items-end justify-center bg-black/40">
+      <div className="w-full max-w-md space-y-4 rounded-t-2xl bg-white px-6 pb-8 pt-6 safe-bottom">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Your status changed</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            A punch was made somewhere else, maybe on another device. Check which is right before punching again.
+          </p>
+        </div>
+
+        <dl className="divide-y divide-gray-100 rounded-lg border border-gray-200 text-sm">
+          <div className="flex justify-between gap-4 px-4 py-3">
+            <dt className="text-gray-500">This screen</dt>
+            <dd className="text-right font-medium text-gray-900">{shown}</dd>
+          </div>
+          <div className="flex justify-between gap-4 px-4 py-3">
+            <dt className="text-gray-500">Latest</dt>
+            <dd className="text-right font-medium text-gray-900">{latest}</dd>
+          </div>
+        </dl>
+
+        <button
+          type="button"
+          onClick={onUseLatest}
+          className="w-full rounded-xl bg-green-600 py-4 text-lg font-semibold text-white transition-all active:scale-[0.98] active:bg-green-700"
+        >
+          Use latest
+        </button>
+        <button type="button" onClick={onKeep} className="w-full py-2 text-sm font-medium text-gray-500">
+          Keep what this screen shows
+        </button>
+      </div>
+    </div>
+  );
+}
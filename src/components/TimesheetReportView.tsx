@@ -0,0 +1,291 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { formatDateKey } from "@/lib/businessTime";
+import { getDayName } from "@/lib/format";
+import { defaultPayPeriod } from "@/lib/payroll";
+import {
+  describePeriod,
+  describeShiftTimes,
+  describeWeekSignOff,
+  reportPeriodError,
+  type ReportDay,
+} from "@/lib/report";
+import { downloadReportPdf, fetchReport, type ReportResponse } from "@/lib/reportApi";
+import { getSession, subscribeToSession } from "@/lib/session";
+
+interface TimesheetReportViewProps {
+  techName: string | null;
+  start: string | null;
+  end: string | null;
+}
+
+function subscribeToNothing(): () => void {
+  return () => {};
+}
+
+function DayRows({ day }: { day: ReportDay }) {
+  const rows = day.shifts.length + day.mileage.length;
+  const dayLabel = `${getDayName(day.date)} ${formatDateKey(day.date, { month: "numeric", day: "numeric" })}`;
+
+  if (rows === 0) {
+    return (
+      <tr className="border-t border-gray-200 text-gray-400">
+        <td className="py-1 pr-2 font-medium">{dayLabel}</td>
+        <td className="py-1 pr-2" colSpan={5}>
+          No time or mileage
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <>
+      {day.shifts.map((shift, i) => (
+        <tr key={shift.shift_id} className={i === 0 ? "border-t border-gray-200" : ""}>
+          <td className="py-1 pr-2 font-medium">{i === 0 && dayLabel}</td>
+          <td className="py-1 pr-2">{describeShiftTimes(shift.clock_in, shift.clock_out)}</td>
+          <td className="py-1 pr-2 text-right">{shift.break_minutes > 0 && `${shift.break_minutes}m`}</td>
+          <td className="py-1 pr-2 text-right">{shift.hours === null ? "--" : shift.hours.toFixed(2)}</td>
+          <td className="py-1 pr-2"></td>
+          <td className="py-1 text-xs text-gray-600">
+            {shift.clock_out === null ? "Not clocked out" : shift.edit_note}
+          </td>
+        </tr>
+      ))}
+      {day.mileage.map((entry, i) => (
+        <tr key={entry.entry_id} className={day.shifts.length === 0 && i === 0 ? "border-t border-gray-200" : ""}>
+          <td className="py-1 pr-2 font-medium">{day.shifts.length === 0 && i === 0 && dayLabel}</td>
+          <td className="py-1 pr-2">{entry.description}</td>
+          <td className="py-1 pr-2"></td>
+          <td className="py-1 pr-2"></td>
+          <td className="py-1 pr-2 text-right">{entry.miles.toFixed(1)}</td>
+          <td className="py-1 text-xs text-gray-600">{entry.edit_note}</td>
+        </tr>
+      ))}
+      {rows > 1 && (
+        <tr className="font-semibold">
+          <td className="py-1 pr-2"></td>
+          <td className="py-1 pr-2">Day total</td>
+          <td className="py-1 pr-2"></td>
+          <td className="py-1 pr-2 text-right">{day.hours.toFixed(2)}</td>
+          <td className="py-1 pr-2 text-right">{day.miles.toFixed(1)}</td>
+          <td className="py-1"></td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+export default function TimesheetReportView(props: TimesheetReportViewProps) {
+  const session = useSyncExternalStore(subscribeToSession, getSession, () => null);
+  const isHydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+  const techName = props.techName ?? session?.tech_name ?? null;
+
+  const [period, setPeriod] = useState(() =>
+    props.start && props.end ? { start: props.start, end: props.end } : defaultPayPeriod()
+  );
+  const [result, setResult] = useState<{ key: string; response: ReportResponse } | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const periodError = period.start && period.end ? reportPeriodError(period.start, period.end) : "Pick a start and end date";
+  const requestKey = `${techName}|${period.start}|${period.end}`;
+  const isLoading = !periodError && result?.key !== requestKey;
+  const response = result?.key === requestKey ? result.response : null;
+
+  useEffect(() => {
+    if (!session || !techName || periodError) return;
+    let cancelled = false;
+
+    fetchReport(techName, period.start, period.end).then((loaded) => {
+      if (!cancelled) setResult({ key: requestKey, response: loaded });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [session, techName, period, periodError, requestKey]);
+
+  const updatePeriod = (field: "start" | "end", value: string) => {
+    const next = { ...period, [field]: value };
+    setPeriod(next);
+    setDownloadError(null);
+
+    // Keeps the period on reload and in the printed page's URL
+    const params = new URLSearchParams({ ...(props.techName ? { tech_name: props.techName } : {}), ...next });
+    window.history.replaceState(null, "", `?${params}`);
+  };
+
+  const download = async () => {
+    if (!techName || isDownloading) return;
+    setIsDownloading(true);
+    const downloaded = await downloadReportPdf(techName, period.start, period.end);
+    setDownloadError(downloaded.success ? null : downloaded.error || "Download failed");
+    setIsDownloading(false);
+  };
+
+  if (!isHydrated) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-green-600 border-t-transparent"></div>
+      </div>
+    );
+  }
+
+  if (!session || !techName) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center px-6 text-center">
+        <p className="mb-6 text-gray-600">Sign in to see timesheet reports.</p>
+        <Link href="/" className="text-sm text-green-600">
+          Go to sign in
+        </Link>
+      </div>
+    );
+  }
+
+  const report = response?.report;
+  const error = periodError ?? (response && !response.success ? response.error || "Failed to load report" : null);
+
+  return (
+    <div className="mx-auto min-h-screen max-w-4xl px-6 py-8 print:max-w-none print:p-0">
+      <div className="mb-6 space-y-3 print:hidden">
+        <div className="flex items-center justify-between">
+          <Link href={session.role === "manager" ? "/manager" : "/"} className="text-sm text-green-600">
+            ← Back
+          </Link>
+          <div className="flex gap-2">
+            <button
+              onClick={() => window.print()}
+              disabled={!report}
+              className="rounded-lg bg-white px-4 py-2 text-sm font-medium text-gray-700 ring-1 ring-gray-300 active:bg-gray-50 disabled:opacity-50"
+            >
+              Print
+            </button>
+            <button
+              onClick={download}
+              disabled={!report || isDownloading}
+              className="rounded-lg bg-green-600 px-4 py-2 text-sm font-medium text-white active:bg-green-700 disabled:opacity-50"
+            >
+              {isDownloading ? "Preparing..." : "Download PDF"}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700">
+            From
+            <input
+              type="date"
+              value={period.start}
+              onChange={(e) => updatePeriod("start", e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            To
+            <input
+              type="date"
+              value={period.end}
+              onChange={(e) => updatePeriod("end", e.target.value)}
+              className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-green-500 focus:outline-none focus:ring-1 focus:ring-green-500"
+            />
+          </label>
+        </div>
+
+        {(error || downloadError) && <p className="text-sm text-red-600">{error || downloadError}</p>}
+      </div>
+
+      {isLoading && (
+        <div className="flex justify-center py-12 print:hidden">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-green-600 border-t-transparent"></div>
+        </div>
+      )}
+
+      {report && (
+        <div className="rounded-xl bg-white p-6 text-sm text-gray-900 shadow-sm ring-1 ring-gray-200 print:rounded-none print:p-0 print:shadow-none print:ring-0">
+          <div className="mb-4 flex items-start justify-between border-b-2 border-gray-900 pb-3">
+            <div>
+              <h1 className="text-xl font-bold">{response?.company_name}</h1>
+              <p>Technician: {report.tech_name}</p>
+            </div>
+            <div className="text-right">
+              <h2 className="text-xl font-bold">Timesheet</h2>
+              <p>Period: {describePeriod(report.start, report.end)}</p>
+            </div>
+          </div>
+
+          <table className="w-full text-left">
+            <thead className="text-xs uppercase text-gray-600">
+              <tr className="border-b border-gray-900">
+                <th className="py-1 pr-2">Date</th>
+                <th className="py-1 pr-2">In - Out / Trip</th>
+                <th className="py-1 pr-2 text-right">Break</th>
+                <th className="py-1 pr-2 text-right">Hours</th>
+                <th className="py-1 pr-2 text-right">Miles</th>
+                <th className="py-1">Notes</th>
+              </tr>
+            </thead>
+            {report.weeks.map((week) => (
+              <tbody key={week.week_start} className="break-inside-avoid">
+                {report.days
+                  .filter((day) => day.date >= week.start && day.date <= week.end)
+                  .map((day) => (
+                    <DayRows key={day.date} day={day} />
+                  ))}
+                <tr className="border-t-2 border-gray-900 font-bold">
+                  <td className="py-1 pr-2" colSpan={3}>
+                    Week of {formatDateKey(week.week_start, { month: "short", day: "numeric" })}
+                  </td>
+                  <td className="py-1 pr-2 text-right">{week.hours.toFixed(2)}</td>
+                  <td className="py-1 pr-2 text-right">{week.miles.toFixed(1)}</td>
+                  <td className="py-1 text-xs font-normal text-gray-600">{describeWeekSignOff(week.timesheet)}</td>
+                </tr>
+                <tr>
+                  <td className="py-2" colSpan={6}></td>
+                </tr>
+              </tbody>
+            ))}
+            <tfoot>
+              <tr className="border-t-2 border-gray-900 text-base font-bold">
+                <td className="py-2 pr-2" colSpan={3}>
+                  Period total
+                </td>
+                <td className="py-2 pr-2 text-right">{report.total_hours.toFixed(2)}</td>
+                <td className="py-2 pr-2 text-right">{report.total_miles.toFixed(1)}</td>
+                <td className="py-2"></td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {(report.edited_shifts > 0 || report.edited_mileage > 0 || report.open_shifts > 0) && (
+            <div className="mt-2 space-y-1 text-xs text-gray-600">
+              {report.edited_shifts > 0 && (
+                <p>
+                  {report.edited_shifts === 1 ? "1 shift was" : `${report.edited_shifts} shifts were`} edited after
+                  punching; original times are in the notes.
+                </p>
+              )}
+              {report.edited_mileage > 0 && (
+                <p>
+                  {report.edited_mileage === 1 ? "1 mileage entry was" : `${report.edited_mileage} mileage entries were`}{" "}
+                  corrected after logging; original miles are in the notes.
+                </p>
+              )}
+              {report.open_shifts > 0 && <p>Shifts that aren&apos;t clocked out aren&apos;t counted in the totals.</p>}
+            </div>
+          )}
+
+          <div className="mt-12 space-y-10 break-inside-avoid">
+            {["Technician signature", "Manager signature"].map((role) => (
+              <div key={role} className="flex gap-8">
+                <div className="flex-[3] border-t border-gray-900 pt-1 text-xs text-gray-600">{role}</div>
+                <div className="flex-1 border-t border-gray-900 pt-1 text-xs text-gray-600">Date</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import type { Timesheet, WeekStatus } from "@/lib/backend/types";
+import { formatBusinessDate } from "@/lib/businessTime";
+import { formatTime, getDayName } from "@/lib/format";
+import { TIMESHEET_ATTESTATION, WEEK_STATUS_LABELS } from "@/lib/timesheets";
+
+export interface ReviewDay {
+  date: string;
+  shifts: { shiftId: string; clockIn: string; clockOut: string | null; hoursWorked: number | null }[];
+  mileage: { entryId: string; description: string; miles: number }[];
+}
+
+interface WeekReviewProps {
+  timesheet: Timesheet;
+  days: ReviewDay[];
+  totals: { hours: number; miles: number };
+  // Why the week can't be submitted right now, if it can't
+  blocker: string | null;
+  isSubmitting: boolean;
+  onSubmit: () => void;
+}
+
+function formatStamp(value: string): string {
+  return `${formatBusinessDate(value, { month: "short", day: "numeric" })} ${formatTime(new Date(value))}`;
+}
+
+const WEEK_STATUS_STYLES: Record<WeekStatus, string> = {
+  draft: "bg-gray-100 text-gray-600",
+  submitted: "bg-blue-100 text-blue-700",
+  approved: "bg-green-100 text-green-700",
+};
+
+export function WeekStatusBadge({ status }: { status: WeekStatus }) {
+  return (
+    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${WEEK_STATUS_STYLES[status]}`}>
+      {WEEK_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+export default function WeekReview({ timesheet, days, totals, blocker, isSubmitting, onSubmit }: WeekReviewProps) {
+  const [attested, setAttested] = useState(false);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between rounded-xl bg-white p-4 shadow-sm ring-1 ring-gray-200">
+        <div>
+          <WeekStatusBadge status={timesheet.status} />
+          {timesheet.status === "submitted" && timesheet.submitted_at && (
+            <p className="mt-1 text-sm text-gray-500">Sent {formatStamp(timesheet.submitted_at)}</p>
+          )}
+          {timesheet.status === "approved" && timesheet.approved_by && (
+            <p className="mt-1 text-sm text-gray-500">
+              Approved by {timesheet.approved_by}
+              {timesheet.approved_at && ` on ${formatStamp(timesheet.approved_at)}`}
+            </p>
+          )}
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-gray-900">{totals.hours}h</p>
+          <p className="text-sm text-gray-500">{totals.miles} mi</p>
+        </div>
+      </div>
+
+      {timesheet.status === "draft" && timesheet.reopened_by && (
+        <div className="rounded-lg bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          Reopened by {timesheet.reopened_by}
+          {timesheet.reopen_reason && `: ${timesheet.reopen_reason}`}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {days.map((day) => (
+          <div key={day.date} className="rounded-lg bg-white p-4 shadow-sm ring-1 ring-gray-200">
+            <p className="font-medium text-gray-900">
+              {getDayName(day.date)}, {day.date}
+            </p>
+            {day.shifts.length === 0 && day.mileage.length === 0 && (
+              <p className="text-sm text-gray-400">Nothing logged</p>
+            )}
+            {day.shifts.map((shift) => (
+              <div key={shift.shiftId} className="flex justify-between text-sm text-gray-600">
+                <span>
+                  {formatTime(new Date(shift.clockIn))}
+                  {shift.clockOut ? ` - ${formatTime(new Date(shift.clockOut))}` : " - In progress"}
+                </span>
+                <span className="font-medium text-gray-900">
+                  {shift.hoursWorked !== null ? `${shift.hoursWorked}h` : "--"}
+                </span>
+              </div>
+            ))}
+            {day.mileage.map((entry) => (
+              <div key={entry.entryId} className="flex justify-between text-sm text-gray-600">
+                <span>{entry.description}</span>
+                <span className="font-medium text-gray-900">{entry.miles} mi</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {timesheet.status === "draft" ? (
+        <div className="space-y-4">
+          <label className="flex items-start gap-3 rounded-xl bg-white p-4 shadow-sm ring-1 ring-gray-200">
+            <input
+              type="checkbox"
+              checked={attested}
+              onChange={(e) => setAttested(e.target.checked)}
+              className="mt-1 h-5 w-5 accent-green-600"
+            />
+            <span className="text-sm text-gray-700">{TIMESHEET_ATTESTATION}</span>
+          </label>
+
+          {blocker && <p className="text-sm text-red-600">{blocker}</p>}
+
+          <button
+            onClick={onSubmit}
+            disabled={!attested || !!blocker || isSubmitting}
+            className="w-full rounded-xl bg-green-600 py-4 text-lg font-semibold text-white transition-all active:scale-[0.98] active:bg-green-700 disabled:opacity-50"
+          >
+            {isSubmitting ? "Submitting..." : "Submit week"}
+          </button>
+          <p className="text-center text-xs text-gray-500">
+            Once it&apos;s submitted, only a manager can reopen the week for changes.
+          </p>
+        </div>
+      ) : (
+        <p className="text-center text-sm text-gray-500">
+          This week is locked. Ask a manager to reopen it if something needs to change.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,287 +1,214 @@
-// Make.com Webhook URLs
-const WEBHOOKS = {
-  timeclock: "https://hook.us1.make.com/s18wy9mdtycogijuy774ya870fc7rcr6",
-  status: "https://hook.us1.make.com/77p47he4rv3y6x005p5dsong3wkpo3p3",
-  technicians: "https://hook.us1.make.com/t7bpro4mjh5et17xyfww7mujmzfsuanp",
-  mileage: "https://hook.us1.make.com/9eond226tb432cpwyu9fg1n5uijn3o4r",
-  history: "https://hook.us1.make.com/vaupr44q2xo1kla8y5a4u2qouv6t89qc",
-  editEntry: "https://hook.us1.make.com/7r3y3iedkxgjro2lmj2alqvv2lf7fd9b",
-};
+import { appRoutesBackend } from "@/lib/backend/appRoutes";
+import type {
+  ClockResponse,
+  EditResponse,
+  HistoryResponse,
+  MileageCorrection,
+  MileageResponse,
+  OdometerReading,
+  OdometerResponse,
+  PhotoResponse,
+  PhotoUpload,
+  PunchLocation,
+  Site,
+  StatusResponse,
+  Technician,
+  TechnicianListResponse,
+  TimesheetDecision,
+  TimesheetResponse,
+  TimesheetSubmission,
+  TimeTrackerBackend,
+} from "@/lib/backend/types";
+import { newIdempotencyKey } from "@/lib/idempotency";
+import { withRetries } from "@/lib/retry";
+import { newShiftId } from "@/lib/shiftId";
+
+export type {
+  BreakSegment,
+  ClockResponse,
+  Delivery,
+  EditResponse,
+  HistoryResponse,
+  MileageCorrection,
+  MileageEntry,
+  MileageResponse,
+  MutationResponse,
+  OdometerReading,
+  OdometerResponse,
+  Photo,
+  PhotoResponse,
+  PhotoUpload,
+  PunchLocation,
+  Site,
+  SiteSegment,
+  StatusResponse,
+  Technician,
+  TimeEntry,
+  Timesheet,
+  TimesheetDecision,
+  TimesheetResponse,
+  TimesheetSubmission,
+  WeekStatus,
+} from "@/lib/backend/types";
+
+// All calls go through our own route handlers; the server picks the real
+// backend (see src/lib/server/backend.ts)
+const backend: TimeTrackerBackend = appRoutesBackend;
 
-// Types
-export interface Technician {
-  name: string;
-  hourly_rate?: number;
-  fixed_route_miles?: number;
-}
-
-export interface ClockResponse {
-  success: boolean;
-  shift_id?: string;
-  hours_worked?: number;
-  error?: string;
-}
+// API Functions
+// Changes take the idempotency key last. Callers that may queue the change for
+// later pass their own, so the replay is recognized as the same change.
 
-export interface StatusResponse {
-  clocked_in: boolean;
-  clock_in_time?: string;
-  elapsed_minutes?: number;
+export function fetchTechnicians(): Promise<TechnicianListResponse> {
+  return backend.fetchTechnicians();
 }
 
-export interface MileageResponse {
-  success: boolean;
-  entry_id?: string;
-  error?: string;
+export function fetchTechnician(techName: string): Promise<Technician | null> {
+  return backend.fetchTechnician(techName);
 }
 
-export interface TimeEntry {
-  shift_id: string;
-  date: string;
-  clock_in: string;
-  clock_out: string | null;
-  hours_worked: number | null;
-  edited: boolean;
+export function fetchSites(): Promise<Site[]> {
+  return backend.fetchSites();
 }
 
-export interface MileageEntry {
-  entry_id: string;
-  date: string;
-  miles: number;
-  description: string;
+export function clockIn(
+  techName: string,
+  timestamp: string = new Date().toISOString(),
+  shiftId: string = newShiftId(),
+  siteId: string | null = null,
+  location: PunchLocation | null = null,
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<ClockResponse> {
+  return withRetries(() => backend.clockIn(techName, timestamp, shiftId, siteId, location, idempotencyKey));
 }
 
-export interface HistoryResponse {
-  time_entries: TimeEntry[];
-  mileage_entries: MileageEntry[];
-  week_total_hours: number;
+export function switchSite(
+  techName: string,
+  siteId: string,
+  timestamp: string = new Date().toISOString(),
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<ClockResponse> {
+  return withRetries(() => backend.switchSite(techName, timestamp, siteId, idempotencyKey));
 }
 
-// API Functions
-
-export async function fetchTechnicians(): Promise<Technician[]> {
-  try {
-    const response = await fetch(WEBHOOKS.technicians, {
-      method: "GET",
-      headers: { "Content-Type": "application/json" },
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return data.technicians || data || [];
-  } catch (error) {
-    console.error("Failed to fetch technicians:", error);
-    // Return fallback technicians if webhook fails
-    return [{ name: "Bri" }, { name: "Nick" }];
-  }
+export function clockOut(
+  techName: string,
+  timestamp: string = new Date().toISOString(),
+  shiftId: string | null = null,
+  location: PunchLocation | null = null,
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<ClockResponse> {
+  return withRetries(() => backend.clockOut(techName, timestamp, shiftId, location, idempotencyKey));
 }
 
-export async function clockIn(techName: string): Promise<ClockResponse> {
-  try {
-    const response = await fetch(WEBHOOKS.timeclock, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        tech_name: techName,
-        action: "clock_in",
-        timestamp: new Date().toISOString(),
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    // Handle different response formats from Make.com
-    const text = await response.text();
-
-    // If response is "Accepted" or empty, treat as success
-    if (text === "Accepted" || text === "" || response.status === 200) {
-      const today = new Date();
-      const dateStr = today.toISOString().split("T")[0];
-      return {
-        success: true,
-        shift_id: `${dateStr}_${techName}`
-      };
-    }
-
-    // Try to parse as JSON
-    try {
-      return JSON.parse(text);
-    } catch {
-      // If not JSON but got 200, treat as success
-      return { success: true };
-    }
-  } catch (error) {
-    console.error("Failed to clock in:", error);
-    return { success: false, error: "Failed to connect. Please try again." };
-  }
+export function startBreak(
+  techName: string,
+  timestamp: string = new Date().toISOString(),
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<ClockResponse> {
+  return withRetries(() => backend.startBreak(techName, timestamp, idempotencyKey));
 }
 
-export async function clockOut(techName: string): Promise<ClockResponse> {
-  try {
-    const response = await fetch(WEBHOOKS.timeclock, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        tech_name: techName,
-        action: "clock_out",
-        timestamp: new Date().toISOString(),
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    // Handle different response formats from Make.com
-    const text = await response.text();
-
-    // If response is "Accepted" or empty, treat as success
-    if (text === "Accepted" || text === "" || response.status === 200) {
-      return { success: true };
-    }
-
-    // Try to parse as JSON
-    try {
-      return JSON.parse(text);
-    } catch {
-      return { success: true };
-    }
-  } catch (error) {
-    console.error("Failed to clock out:", error);
-    return { success: false, error: "Failed to connect. Please try again." };
-  }
+export function endBreak(
+  techName: string,
+  timestamp: string = new Date().toISOString(),
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<ClockResponse> {
+  return withRetries(() => backend.endBreak(techName, timestamp, idempotencyKey));
 }
 
-export async function checkStatus(techName: string): Promise<StatusResponse> {
-  try {
-    const response = await fetch(`${WEBHOOKS.status}?tech_name=${encodeURIComponent(techName)}`, {
-      method: "GET",
-      headers: { "Content-Type": "application/json" },
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error("Failed to check status:", error);
-    return { clocked_in: false };
-  }
+export function checkStatus(techName: string): Promise<StatusResponse> {
+  return backend.checkStatus(techName);
 }
 
-export async function submitMileage(
+export function submitMileage(
   techName: string,
   date: string,
   miles: number,
-  description: string
+  description: string,
+  photos: PhotoUpload[] = [],
+  idempotencyKey: string = newIdempotencyKey()
 ): Promise<MileageResponse> {
-  try {
-    const response = await fetch(WEBHOOKS.mileage, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        tech_name: techName,
-        date,
-        miles,
-        description,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    // Handle different response formats from Make.com
-    const text = await response.text();
+  return withRetries(() => backend.submitMileage(techName, date, miles, description, {}, photos, idempotencyKey));
+}
 
-    // If response is "Accepted" or empty, treat as success
-    if (text === "Accepted" || text === "" || response.status === 200) {
-      return {
-        success: true,
-        entry_id: `mileage_${Date.now()}`
-      };
-    }
+export function addMileagePhotos(
+  techName: string,
+  entryId: string,
+  photos: PhotoUpload[],
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<PhotoResponse> {
+  return withRetries(() => backend.addMileagePhotos(techName, entryId, photos, idempotencyKey));
+}
 
-    // Try to parse as JSON
-    try {
-      return JSON.parse(text);
-    } catch {
-      return { success: true };
-    }
-  } catch (error) {
-    console.error("Failed to submit mileage:", error);
-    return { success: false, error: "Failed to connect. Please try again." };
-  }
+export function fetchPhoto(techName: string, photoId: string): Promise<string | null> {
+  return backend.fetchPhoto(techName, photoId);
 }
 
-export async function fetchHistory(techName: string, days: number = 14): Promise<HistoryResponse> {
-  try {
-    const response = await fetch(
-      `${WEBHOOKS.history}?tech_name=${encodeURIComponent(techName)}&days=${days}`,
-      {
-        method: "GET",
-        headers: { "Content-Type": "application/json" },
-      }
-    );
+export function lastOdometerReading(vehicleId: string): Promise<OdometerReading | null> {
+  return backend.lastOdometerReading(vehicleId);
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+export function recordOdometer(
+  reading: OdometerReading,
+  photo?: PhotoUpload,
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<OdometerResponse> {
+  return withRetries(() => backend.recordOdometer(reading, photo, idempotencyKey));
+}
 
-    return await response.json();
-  } catch (error) {
-    console.error("Failed to fetch history:", error);
-    return { time_entries: [], mileage_entries: [], week_total_hours: 0 };
-  }
+export function fetchHistory(techName: string, days: number = 14): Promise<HistoryResponse> {
+  return backend.fetchHistory(techName, days);
 }
 
-export async function editEntry(
+export function editEntry(
   techName: string,
   shiftId: string,
   field: string,
-  oldValue: string,
+  oldValue: string | null,
   newValue: string,
-  reason: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const response = await fetch(WEBHOOKS.editEntry, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        tech_name: techName,
-        shift_id: shiftId,
-        field,
-        old_value: oldValue,
-        new_value: newValue,
-        reason,
-      }),
-    });
+  reason: string,
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<EditResponse> {
+  return withRetries(() => backend.editEntry(techName, shiftId, field, oldValue, newValue, reason, idempotencyKey));
+}
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
+export function editMileage(
+  techName: string,
+  entryId: string,
+  correction: MileageCorrection,
+  reason: string,
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<EditResponse> {
+  return withRetries(() => backend.editMileage(techName, entryId, correction, reason, idempotencyKey));
+}
 
-    // Handle different response formats from Make.com
-    const text = await response.text();
+export function deleteMileage(
+  techName: string,
+  entryId: string,
+  reason: string,
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<EditResponse> {
+  return withRetries(() => backend.deleteMileage(techName, entryId, reason, idempotencyKey));
+}
 
-    // If response is "Accepted" or empty, treat as success
-    if (text === "Accepted" || text === "" || response.status === 200) {
-      return { success: true };
-    }
+export function submitTimesheet(
+  techName: string,
+  submission: TimesheetSubmission,
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<TimesheetResponse> {
+  return withRetries(() => backend.submitTimesheet(techName, submission, idempotencyKey));
+}
 
-    // Try to parse as JSON
-    try {
-      return JSON.parse(text);
-    } catch {
-      return { success: true };
-    }
-  } catch (error) {
-    console.error("Failed to edit entry:", error);
-    return { success: false, error: "Failed to connect. Please try again." };
-  }
+export function reviewTimesheet(
+  techName: string,
+  weekStart: string,
+  decision: TimesheetDecision,
+  managerName: string,
+  reason: string = "",
+  idempotencyKey: string = newIdempotencyKey()
+): Promise<TimesheetResponse> {
+  return withRetries(() =>
+    backend.reviewTimesheet(techName, weekStart, decision, managerName, reason, idempotencyKey)
+  );
 }
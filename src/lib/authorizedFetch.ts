@@ -0,0 +1,45 @@
+import { authHeaders, clearSession } from "@/lib/session";
+
+// Signed-in GETs for the dashboard and report pages, which talk to their route
+// handlers directly rather than through a backend
+
+export async function authorizedGet(path: string): Promise<Response> {
+  const response = await fetch(path, {
+    method: "GET",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+  });
+  if (response.status === 401) {
+    clearSession();
+  }
+  return response;
+}
+
+// Route handlers answer refusals with { error }
+export async function errorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => ({}));
+  return body.error || `HTTP error! status: ${response.status}`;
+}
+
+// Downloads go through fetch so the session token can be sent; the file name
+// comes from Content-Disposition when the route sets one
+export async function downloadFile(path: string, fallbackName: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await authorizedGet(path);
+    if (!response.ok) {
+      return { success: false, error: await errorMessage(response) };
+    }
+
+    const disposition = response.headers.get("Content-Disposition") ?? "";
+    const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return { success: true };
+  } catch (error) {
+    console.error(`Failed to download ${fallbackName}:`, error);
+    return { success: false, error: "Failed to connect. Please try again." };
+  }
+}
@@ -0,0 +1,479 @@
+import {
+  clockResponseSchema,
+  describeFailure,
+  editResponseSchema,
+  historyResponseSchema,
+  mileageResponseSchema,
+  odometerLookupSchema,
+  odometerResponseSchema,
+  parseResponse,
+  photoImageSchema,
+  photoResponseSchema,
+  ResponseFormatError,
+  siteLookupSchema,
+  statusResponseSchema,
+  technicianLookupSchema,
+  technicianSettingsSchema,
+  timesheetResponseSchema,
+  type Schema,
+} from "@/lib/backend/schemas";
+import { getCachedAt } from "@/lib/backend/serviceWorkerCache";
+import { IDEMPOTENCY_HEADER } from "@/lib/idempotency";
+import { failedMutation, HttpStatusError, isRetryableStatus, REQUEST_TIMEOUT_MS } from "@/lib/retry";
+import { authHeaders, clearSession, getSession } from "@/lib/session";
+import type {
+  ClockResponse,
+  EditResponse,
+  HistoryResponse,
+  MileageCorrection,
+  MileageDetails,
+  MileageResponse,
+  MutationResponse,
+  OdometerReading,
+  OdometerResponse,
+  PhotoResponse,
+  PhotoUpload,
+  PunchLocation,
+  Site,
+  StatusResponse,
+  Technician,
+  TechnicianListResponse,
+  TimesheetDecision,
+  TimesheetResponse,
+  TimesheetSubmission,
+  TimeTrackerBackend,
+} from "@/lib/backend/types";
+
+// Browser-side backend: the app's own route handlers in src/app/api, which
+// forward to whichever backend the server is configured with. Upstream URLs
+// and secrets never reach the client.
+
+// An expired or revoked session sends the tech back to the sign-in screen
+function checkSession(response: Response) {
+  if (response.status === 401) {
+    clearSession();
+  }
+}
+
+async function readBody<T>(response: Response, schema: Schema<T>, what: string): Promise<T> {
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new ResponseFormatError(what, "response", "JSON");
+  }
+  return parseResponse(schema, data, what);
+}
+
+// A 502 means the server reached the backend but got nothing usable back; its
+// body is still a result, with error set
+async function getJson<T>(
+  path: string,
+  schema: Schema<T>,
+  what: string
+): Promise<{ data: T; response: Response }> {
+  const response = await fetch(path, {
+    method: "GET",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+  });
+  checkSession(response);
+
+  if (!response.ok && response.status !== 502) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  return { data: await readBody(response, schema, what), response };
+}
+
+// Route handlers answer 4xx with { success: false, error } for rejected requests.
+// A lapsed session, a timeout or rate limiting throws like a 5xx does, so the
+// change is kept and sent again rather than dropped.
+async function postJson<T extends MutationResponse>(
+  schema: Schema<T>,
+  what: string,
+  path: string,
+  idempotencyKey: string | undefined,
+  body: Record<string, unknown>
+): Promise<T> {
+  const response = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...authHeaders(),
+      ...(idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : {}),
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  checkSession(response);
+
+  if (isRetryableStatus(response.status)) {
+    throw new HttpStatusError(response.status);
+  }
+
+  return await readBody(response, schema, what);
+}
+
+async function fetchTechnicians(): Promise<TechnicianListResponse> {
+  try {
+    const { data } = await getJson("/api/technicians", technicianLookupSchema, "technician list");
+    return data;
+  } catch (error) {
+    console.error("Failed to fetch technicians:", error);
+    return { technicians: [], error: describeFailure(error) };
+  }
+}
+
+async function fetchTechnician(techName: string): Promise<Technician | null> {
+  try {
+    const { data } = await getJson(
+      `/api/technicians?tech_name=${encodeURIComponent(techName)}`,
+      technicianSettingsSchema,
+      "technician settings"
+    );
+    return data.technician;
+  } catch (error) {
+    console.error("Failed to fetch technician settings:", error);
+    return null;
+  }
+}
+
+async function fetchSites(): Promise<Site[]> {
+  try {
+    const { data } = await getJson("/api/sites", siteLookupSchema, "site list");
+    return data.sites;
+  } catch (error) {
+    console.error("Failed to fetch sites:", error);
+    return [];
+  }
+}
+
+async function checkStatus(techName: string): Promise<StatusResponse> {
+  try {
+    const { data, response } = await getJson(
+      `/api/status?tech_name=${encodeURIComponent(techName)}`,
+      statusResponseSchema,
+      "clock status"
+    );
+    return { ...data, cached_at: getCachedAt(response) };
+  } catch (error) {
+    console.error("Failed to check status:", error);
+    // Set error either way, so a dropped connection never reads as "clocked out"
+    return { clocked_in: false, error: describeFailure(error) };
+  }
+}
+
+async function clockIn(
+  techName: string,
+  timestamp: string,
+  shiftId: string,
+  siteId: string | null,
+  location: PunchLocation | null,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  try {
+    return await postJson(clockResponseSchema, "clock result", "/api/clock", idempotencyKey, {
+      tech_name: techName,
+      action: "clock_in",
+      timestamp,
+      shift_id: shiftId,
+      site_id: siteId,
+      location,
+    });
+  } catch (error) {
+    console.error("Failed to clock in:", error);
+    return failedMutation(error);
+  }
+}
+
+async function clockOut(
+  techName: string,
+  timestamp: string,
+  shiftId: string | null,
+  location: PunchLocation | null,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  try {
+    return await postJson(clockResponseSchema, "clock result", "/api/clock", idempotencyKey, {
+      tech_name: techName,
+      action: "clock_out",
+      timestamp,
+      shift_id: shiftId,
+      location,
+    });
+  } catch (error) {
+    console.error("Failed to clock out:", error);
+    return failedMutation(error);
+  }
+}
+
+async function switchSite(
+  techName: string,
+  timestamp: string,
+  siteId: string,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  try {
+    return await postJson(clockResponseSchema, "clock result", "/api/clock", idempotencyKey, {
+      tech_name: techName,
+      action: "switch_site",
+      timestamp,
+      site_id: siteId,
+    });
+  } catch (error) {
+    console.error("Failed to switch site:", error);
+    return failedMutation(error);
+  }
+}
+
+async function startBreak(techName: string, timestamp: string, idempotencyKey?: string): Promise<ClockResponse> {
+  try {
+    return await postJson(clockResponseSchema, "clock result", "/api/clock", idempotencyKey, {
+      tech_name: techName,
+      action: "break_start",
+      timestamp,
+    });
+  } catch (error) {
+    console.error("Failed to start break:", error);
+    return failedMutation(error);
+  }
+}
+
+async function endBreak(techName: string, timestamp: string, idempotencyKey?: string): Promise<ClockResponse> {
+  try {
+    return await postJson(clockResponseSchema, "clock result", "/api/clock", idempotencyKey, {
+      tech_name: techName,
+      action: "break_end",
+      timestamp,
+    });
+  } catch (error) {
+    console.error("Failed to end break:", error);
+    return failedMutation(error);
+  }
+}
+
+// Details are only set server-side, by the odometer route
+async function submitMileage(
+  techName: string,
+  date: string,
+  miles: number,
+  description: string,
+  _details?: MileageDetails,
+  photos: PhotoUpload[] = [],
+  idempotencyKey?: string
+): Promise<MileageResponse> {
+  try {
+    return await postJson(mileageResponseSchema, "mileage result", "/api/mileage", idempotencyKey, {
+      tech_name: techName,
+      date,
+      miles,
+      description,
+      photos,
+    });
+  } catch (error) {
+    console.error("Failed to submit mileage:", error);
+    return failedMutation(error);
+  }
+}
+
+async function addMileagePhotos(
+  techName: string,
+  entryId: string,
+  photos: PhotoUpload[],
+  idempotencyKey?: string
+): Promise<PhotoResponse> {
+  try {
+    return await postJson(photoResponseSchema, "photo result", "/api/photos", idempotencyKey, {
+      tech_name: techName,
+      entry_id: entryId,
+      photos,
+    });
+  } catch (error) {
+    console.error("Failed to add photos:", error);
+    return failedMutation(error);
+  }
+}
+
+async function fetchPhoto(techName: string, photoId: string): Promise<string | null> {
+  try {
+    const { data } = await getJson(
+      `/api/photos?tech_name=${encodeURIComponent(techName)}&photo_id=${encodeURIComponent(photoId)}`,
+      photoImageSchema,
+      "photo"
+    );
+    return data.image;
+  } catch (error) {
+    console.error("Failed to fetch photo:", error);
+    return null;
+  }
+}
+
+async function lastOdometerReading(vehicleId: string): Promise<OdometerReading | null> {
+  try {
+    const techName = getSession()?.tech_name ?? "";
+    const { data } = await getJson(
+      `/api/odometer?tech_name=${encodeURIComponent(techName)}&vehicle_id=${encodeURIComponent(vehicleId)}`,
+      odometerLookupSchema,
+      "odometer reading"
+    );
+    return data.reading;
+  } catch (error) {
+    console.error("Failed to fetch odometer reading:", error);
+    return null;
+  }
+}
+
+async function recordOdometer(
+  reading: OdometerReading,
+  photo?: PhotoUpload,
+  idempotencyKey?: string
+): Promise<OdometerResponse> {
+  try {
+    return await postJson(odometerResponseSchema, "odometer result", "/api/odometer", idempotencyKey, {
+      ...reading,
+      photo,
+    });
+  } catch (error) {
+    console.error("Failed to record odometer reading:", error);
+    return failedMutation(error);
+  }
+}
+
+async function fetchHistory(techName: string, days: number): Promise<HistoryResponse> {
+  try {
+    const { data, response } = await getJson(
+      `/api/history?tech_name=${encodeURIComponent(techName)}&days=${days}`,
+      historyResponseSchema,
+      "history"
+    );
+    return { ...data, cached_at: getCachedAt(response) };
+  } catch (error) {
+    console.error("Failed to fetch history:", error);
+    return { time_entries: [], mileage_entries: [], week_total_hours: 0, error: describeFailure(error) };
+  }
+}
+
+async function editEntry(
+  techName: string,
+  shiftId: string,
+  field: string,
+  oldValue: string | null,
+  newValue: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  try {
+    return await postJson(editResponseSchema, "edit result", "/api/edit", idempotencyKey, {
+      tech_name: techName,
+      shift_id: shiftId,
+      field,
+      old_value: oldValue,
+      new_value: newValue,
+      reason,
+    });
+  } catch (error) {
+    console.error("Failed to edit entry:", error);
+    return failedMutation(error);
+  }
+}
+
+async function editMileage(
+  techName: string,
+  entryId: string,
+  correction: MileageCorrection,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  try {
+    return await postJson(editResponseSchema, "mileage edit result", "/api/mileage/edit", idempotencyKey, {
+      tech_name: techName,
+      entry_id: entryId,
+      action: "edit",
+      ...correction,
+      reason,
+    });
+  } catch (error) {
+    console.error("Failed to edit mileage entry:", error);
+    return failedMutation(error);
+  }
+}
+
+async function deleteMileage(
+  techName: string,
+  entryId: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  try {
+    return await postJson(editResponseSchema, "mileage delete result", "/api/mileage/edit", idempotencyKey, {
+      tech_name: techName,
+      entry_id: entryId,
+      action: "delete",
+      reason,
+    });
+  } catch (error) {
+    console.error("Failed to delete mileage entry:", error);
+    return failedMutation(error);
+  }
+}
+
+async function submitTimesheet(
+  techName: string,
+  submission: TimesheetSubmission,
+  idempotencyKey?: string
+): Promise<TimesheetResponse> {
+  try {
+    return await postJson(timesheetResponseSchema, "timesheet result", "/api/timesheets", idempotencyKey, {
+      tech_name: techName,
+      ...submission,
+    });
+  } catch (error) {
+    console.error("Failed to submit timesheet:", error);
+    return failedMutation(error);
+  }
+}
+
+async function reviewTimesheet(
+  techName: string,
+  weekStart: string,
+  decision: TimesheetDecision,
+  managerName: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<TimesheetResponse> {
+  try {
+    return await postJson(timesheetResponseSchema, "timesheet result", "/api/manager/timesheets", idempotencyKey, {
+      tech_name: techName,
+      week_start: weekStart,
+      decision,
+      manager_name: managerName,
+      reason,
+    });
+  } catch (error) {
+    console.error(`Failed to ${decision} timesheet:`, error);
+    return failedMutation(error);
+  }
+}
+
+export const appRoutesBackend: TimeTrackerBackend = {
+  fetchTechnicians,
+  fetchTechnician,
+  fetchSites,
+  checkStatus,
+  clockIn,
+  clockOut,
+  switchSite,
+  startBreak,
+  endBreak,
+  submitMileage,
+  addMileagePhotos,
+  fetchPhoto,
+  lastOdometerReading,
+  recordOdometer,
+  fetchHistory,
+  editEntry,
+  editMileage,
+  deleteMileage,
+  submitTimesheet,
+  reviewTimesheet,
+};
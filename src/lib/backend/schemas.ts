@@ -0,0 +1,433 @@
+import type {
+  BreakSegment,
+  ClockResponse,
+  EditResponse,
+  HistoryResponse,
+  MileageEntry,
+  MileageResponse,
+  MutationResponse,
+  OdometerReading,
+  OdometerResponse,
+  Photo,
+  PhotoResponse,
+  PunchLocation,
+  Site,
+  SiteSegment,
+  StatusResponse,
+  Technician,
+  TechnicianListResponse,
+  TimeEntry,
+  Timesheet,
+  TimesheetResponse,
+} from "@/lib/backend/types";
+import type { PayrollResponse, TeamMember, TeamOverviewResponse } from "@/lib/managerApi";
+import type { ClientHoursLine, PayrollLine, PayrollShift } from "@/lib/payroll";
+import type { ReportDay, ReportMileage, ReportShift, ReportWeek, TimesheetReport } from "@/lib/report";
+import type { ReportResponse } from "@/lib/reportApi";
+import type { SessionGrant, SignInResponse } from "@/lib/session";
+
+// Response validation
+// Everything that comes back from Make.com or from our own route handlers is
+// checked against these schemas before the app uses it. Make.com tends to send
+// numbers and booleans as strings, so those are converted; anything else that
+// doesn't fit is a ResponseFormatError naming the first bad field.
+
+export class ResponseFormatError extends Error {
+  constructor(what: string, field: string, expected: string) {
+    super(`Unexpected ${what} from the server (${field}: expected ${expected})`);
+    this.name = "ResponseFormatError";
+  }
+}
+
+class FieldError extends Error {
+  constructor(
+    readonly field: string,
+    readonly expected: string
+  ) {
+    super(`${field}: expected ${expected}`);
+  }
+}
+
+export type Schema<T> = (value: unknown, field: string) => T;
+
+// Building blocks
+
+const string: Schema<string> = (value, field) => {
+  if (typeof value !== "string") throw new FieldError(field, "text");
+  return value;
+};
+
+const number: Schema<number> = (value, field) => {
+  const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof parsed !== "number" || !Number.isFinite(parsed)) throw new FieldError(field, "a number");
+  return parsed;
+};
+
+const boolean: Schema<boolean> = (value, field) => {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (typeof value !== "boolean") throw new FieldError(field, "true or false");
+  return value;
+};
+
+function oneOf<T extends string>(...options: T[]): Schema<T> {
+  return (value, field) => {
+    if (!options.includes(value as T)) throw new FieldError(field, options.join(" or "));
+    return value as T;
+  };
+}
+
+// Missing and null both read as absent
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, field) => (value === undefined || value === null ? undefined : schema(value, field));
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, field) => (value === undefined || value === null ? null : schema(value, field));
+}
+
+function arrayOf<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, field) => {
+    if (!Array.isArray(value)) throw new FieldError(field, "a list");
+    return value.map((item, index) => schema(item, `${field}[${index}]`));
+  };
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+// Fields outside the shape are kept as they came
+function object<T>(shape: Shape<T>): Schema<T> {
+  return (value, field) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) throw new FieldError(field, "an object");
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = { ...input };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const parsed = shape[key](input[key], field ? `${field}.${key}` : key);
+      if (parsed === undefined) {
+        delete output[key];
+      } else {
+        output[key] = parsed;
+      }
+    }
+    return output as T;
+  };
+}
+
+// Schemas
+
+export const technicianSchema = object<Technician>({
+  name: string,
+  hourly_rate: optional(number),
+  fixed_route_miles: optional(number),
+  mileage_mode: optional(oneOf("manual", "odometer")),
+  vehicle_id: optional(string),
+});
+
+export const siteSchema = object<Site>({
+  site_id: string,
+  name: string,
+  client: string,
+  latitude: optional(number),
+  longitude: optional(number),
+  radius_m: optional(number),
+});
+
+const punchLocationSchema = object<PunchLocation>({
+  latitude: number,
+  longitude: number,
+  accuracy_m: number,
+  geofence: optional(oneOf("inside", "outside", "unknown")),
+  geofence_name: optional(string),
+});
+
+const photoSchema = object<Photo>({
+  photo_id: string,
+  kind: oneOf("odometer", "receipt"),
+  thumbnail: string,
+});
+
+const breakSegmentSchema = object<BreakSegment>({
+  start: string,
+  end: nullable(string),
+});
+
+const siteSegmentSchema = object<SiteSegment>({
+  site_id: string,
+  start: string,
+  end: nullable(string),
+});
+
+const timeEntrySchema = object<TimeEntry>({
+  shift_id: string,
+  date: string,
+  clock_in: string,
+  clock_out: nullable(string),
+  hours_worked: nullable(number),
+  breaks: optional(arrayOf(breakSegmentSchema)),
+  site_segments: optional(arrayOf(siteSegmentSchema)),
+  clock_in_location: optional(punchLocationSchema),
+  clock_out_location: optional(punchLocationSchema),
+  edited: (value, field) => (value === undefined || value === null ? false : boolean(value, field)),
+  original_clock_in: optional(string),
+  original_clock_out: optional(string),
+});
+
+const mileageEntrySchema = object<MileageEntry>({
+  entry_id: string,
+  date: string,
+  miles: number,
+  description: string,
+  vehicle_id: optional(string),
+  odometer_start: optional(number),
+  odometer_end: optional(number),
+  commute_deducted_miles: optional(number),
+  photos: optional(arrayOf(photoSchema)),
+  edited: optional(boolean),
+  original_date: optional(string),
+  original_miles: optional(number),
+  original_description: optional(string),
+});
+
+const timesheetSchema = object<Timesheet>({
+  week_start: string,
+  status: oneOf("draft", "submitted", "approved"),
+  hours: optional(number),
+  miles: optional(number),
+  attestation: optional(string),
+  submitted_at: optional(string),
+  approved_by: optional(string),
+  approved_at: optional(string),
+  reopened_by: optional(string),
+  reopened_at: optional(string),
+  reopen_reason: optional(string),
+});
+
+export const technicianListSchema = arrayOf(technicianSchema);
+export const siteListSchema = arrayOf(siteSchema);
+
+export const statusResponseSchema = object<StatusResponse>({
+  clocked_in: boolean,
+  shift_id: optional(string),
+  clock_in_time: optional(string),
+  elapsed_minutes: optional(number),
+  site_id: optional(string),
+  on_break: optional(boolean),
+  break_start_time: optional(string),
+  cached_at: optional(string),
+  error: optional(string),
+});
+
+export const historyResponseSchema = object<HistoryResponse>({
+  time_entries: arrayOf(timeEntrySchema),
+  mileage_entries: arrayOf(mileageEntrySchema),
+  week_total_hours: number,
+  timesheets: optional(arrayOf(timesheetSchema)),
+  cached_at: optional(string),
+  error: optional(string),
+});
+
+const mutationFields: Shape<MutationResponse> = {
+  success: boolean,
+  error: optional(string),
+  retryable: optional(boolean),
+  attempts: optional(number),
+  delivery: optional(oneOf("succeeded", "succeeded_after_retry", "failed_permanently")),
+};
+
+export const clockResponseSchema = object<ClockResponse>({
+  ...mutationFields,
+  shift_id: optional(string),
+  hours_worked: optional(number),
+});
+
+export const mileageResponseSchema = object<MileageResponse>({
+  ...mutationFields,
+  entry_id: optional(string),
+});
+
+export const editResponseSchema = object<EditResponse>(mutationFields);
+
+export const photoResponseSchema = object<PhotoResponse>(mutationFields);
+
+export const odometerReadingSchema = object<OdometerReading>({
+  tech_name: string,
+  vehicle_id: string,
+  shift_id: string,
+  kind: oneOf("start", "end"),
+  reading: number,
+  timestamp: string,
+  photo: optional(photoSchema),
+});
+
+export const odometerResponseSchema = object<OdometerResponse>({
+  ...mutationFields,
+  miles: optional(number),
+  entry_id: optional(string),
+  commute_deducted_miles: optional(number),
+});
+
+export const timesheetResponseSchema = object<TimesheetResponse>({
+  ...mutationFields,
+  timesheet: optional(timesheetSchema),
+});
+
+export const odometerLookupSchema = object<{ reading: OdometerReading | null }>({
+  reading: nullable(odometerReadingSchema),
+});
+
+export const technicianLookupSchema = object<TechnicianListResponse>({
+  technicians: technicianListSchema,
+  error: optional(string),
+});
+
+export const technicianSettingsSchema = object<{ technician: Technician | null }>({
+  technician: nullable(technicianSchema),
+});
+
+export const siteLookupSchema = object<{ sites: Site[] }>({
+  sites: siteListSchema,
+});
+
+export const teamOverviewSchema = object<TeamOverviewResponse>({
+  success: boolean,
+  team: arrayOf(
+    object<TeamMember>({
+      technician: technicianSchema,
+      status: statusResponseSchema,
+      history: historyResponseSchema,
+    })
+  ),
+  error: optional(string),
+});
+
+const payrollShiftSchema = object<PayrollShift>({
+  shift_id: string,
+  date: string,
+  regular_hours: number,
+  overtime_hours: number,
+});
+
+const payrollLineSchema = object<PayrollLine>({
+  tech_name: string,
+  hourly_rate: nullable(number),
+  shifts: arrayOf(payrollShiftSchema),
+  regular_hours: number,
+  overtime_hours: number,
+  regular_pay: number,
+  overtime_pay: number,
+  miles: number,
+  reimbursable_miles: number,
+  mileage_reimbursement: number,
+  total_pay: number,
+});
+
+const clientHoursLineSchema = object<ClientHoursLine>({
+  client: string,
+  site_id: nullable(string),
+  site_name: string,
+  hours: number,
+  labor_cost: number,
+});
+
+export const payrollResponseSchema = object<PayrollResponse>({
+  success: boolean,
+  lines: arrayOf(payrollLineSchema),
+  clients: arrayOf(clientHoursLineSchema),
+  error: optional(string),
+});
+
+const reportShiftSchema = object<ReportShift>({
+  shift_id: string,
+  clock_in: string,
+  clock_out: nullable(string),
+  break_minutes: number,
+  hours: nullable(number),
+  edit_note: nullable(string),
+});
+
+const reportMileageSchema = object<ReportMileage>({
+  entry_id: string,
+  description: string,
+  miles: number,
+  edit_note: nullable(string),
+});
+
+const reportDaySchema = object<ReportDay>({
+  date: string,
+  shifts: arrayOf(reportShiftSchema),
+  mileage: arrayOf(reportMileageSchema),
+  hours: number,
+  miles: number,
+});
+
+const reportWeekSchema = object<ReportWeek>({
+  week_start: string,
+  start: string,
+  end: string,
+  hours: number,
+  miles: number,
+  timesheet: timesheetSchema,
+});
+
+export const reportResponseSchema = object<ReportResponse>({
+  success: boolean,
+  report: optional(
+    object<TimesheetReport>({
+      tech_name: string,
+      start: string,
+      end: string,
+      days: arrayOf(reportDaySchema),
+      weeks: arrayOf(reportWeekSchema),
+      total_hours: number,
+      total_miles: number,
+      edited_shifts: number,
+      edited_mileage: number,
+      open_shifts: number,
+    })
+  ),
+  company_name: optional(string),
+  error: optional(string),
+});
+
+// Make.com scenarios send either the bare list or the list under its key
+function listOrLookup<T>(key: string, schema: Schema<T[]>): Schema<T[]> {
+  return (value, field) =>
+    Array.isArray(value) ? schema(value, field) : object<Record<string, T[]>>({ [key]: schema })(value, field)[key];
+}
+
+export const technicianPayloadSchema = listOrLookup("technicians", technicianListSchema);
+export const sitePayloadSchema = listOrLookup("sites", siteListSchema);
+
+export const photoImageSchema = object<{ image: string | null }>({
+  image: nullable(string),
+});
+
+export const signInResponseSchema = object<SignInResponse>({
+  success: boolean,
+  error: optional(string),
+  locked_until: optional(string),
+});
+
+export const sessionGrantSchema = object<SessionGrant>({
+  role: oneOf("tech", "manager"),
+  token: string,
+  expires_at: string,
+});
+
+// Entry point
+
+export function parseResponse<T>(schema: Schema<T>, value: unknown, what: string): T {
+  try {
+    return schema(value, "");
+  } catch (error) {
+    if (error instanceof FieldError) {
+      throw new ResponseFormatError(what, error.field || "response", error.expected);
+    }
+    throw error;
+  }
+}
+
+// Turns a caught error into the message the tech sees
+export function describeFailure(error: unknown): string {
+  return error instanceof ResponseFormatError ? error.message : "Failed to connect. Please try again.";
+}
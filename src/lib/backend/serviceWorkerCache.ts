@@ -0,0 +1,12 @@
+// Set by the service worker (public/sw.js) when it answers from its cache while offline
+export function getCachedAt(response: Response): string | undefined {
+  return response.headers.get("X-AHP-Cached-At") ?? undefined;
+}
+
+// Has the worker drop its cached roster, status and history, so nothing of the
+// last tech's is shown offline to whoever uses the device next
+export async function clearDataCache() {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: "clear-data" });
+}
@@ -0,0 +1,307 @@
+// Types shared by the page and every backend implementation
+export interface Technician {
+  name: string;
+  hourly_rate?: number;
+  fixed_route_miles?: number;
+  // "odometer" asks for readings at clock-in and clock-out instead of typed miles
+  mileage_mode?: "manual" | "odometer";
+  vehicle_id?: string;
+}
+
+// A client account's job site; time can be tagged to one while clocked in.
+// Sites with coordinates are also geofences for punch locations.
+export interface Site {
+  site_id: string;
+  name: string;
+  client: string;
+  latitude?: number;
+  longitude?: number;
+  radius_m?: number;
+}
+
+export type GeofenceStatus = "inside" | "outside" | "unknown";
+
+// Where a punch was made, as reported by the device. The server fills in the
+// geofence verdict; anything the client sends for it is ignored.
+export interface PunchLocation {
+  latitude: number;
+  longitude: number;
+  accuracy_m: number;
+  geofence?: GeofenceStatus;
+  // The fence the punch was inside, or the nearest one when outside
+  geofence_name?: string;
+}
+
+// How a change ended up, as api.ts reports it after any retries
+export type Delivery = "succeeded" | "succeeded_after_retry" | "failed_permanently";
+
+// What every call that changes data returns
+export interface MutationResponse {
+  success: boolean;
+  error?: string;
+  // Set by backends when the request may not have arrived or may go through later
+  // (network, timeout, 5xx, rate limiting, lapsed session)
+  retryable?: boolean;
+  // Filled in by api.ts
+  attempts?: number;
+  delivery?: Delivery;
+}
+
+export interface ClockResponse extends MutationResponse {
+  shift_id?: string;
+  hours_worked?: number;
+}
+
+export interface StatusResponse {
+  clocked_in: boolean;
+  shift_id?: string;
+  clock_in_time?: string;
+  elapsed_minutes?: number;
+  site_id?: string;
+  on_break?: boolean;
+  break_start_time?: string;
+  cached_at?: string;
+  // Set when the status couldn't be read; the rest is a placeholder then
+  error?: string;
+}
+
+export type PhotoKind = "odometer" | "receipt";
+
+// A photo compressed on the device, sent along with the entry or reading it
+// belongs to. Both images are JPEG data URLs.
+export interface PhotoUpload {
+  photo_id: string;
+  kind: PhotoKind;
+  image: string;
+  thumbnail: string;
+}
+
+// What an entry keeps of a photo; the full image is fetched by photo_id
+export interface Photo {
+  photo_id: string;
+  kind: PhotoKind;
+  thumbnail: string;
+}
+
+export type PhotoResponse = MutationResponse;
+
+export interface OdometerReading {
+  tech_name: string;
+  vehicle_id: string;
+  shift_id: string;
+  kind: "start" | "end";
+  reading: number;
+  timestamp: string;
+  photo?: Photo;
+}
+
+export interface OdometerResponse extends MutationResponse {
+  // Set on an end reading, for the mileage entry it created
+  miles?: number;
+  entry_id?: string;
+  commute_deducted_miles?: number;
+}
+
+export interface MileageResponse extends MutationResponse {
+  entry_id?: string;
+}
+
+export type EditResponse = MutationResponse;
+
+// Unpaid break within a shift; end is null while the break is running
+export interface BreakSegment {
+  start: string;
+  end: string | null;
+}
+
+// Part of a shift spent at one site; end is null while the tech is still there
+export interface SiteSegment {
+  site_id: string;
+  start: string;
+  end: string | null;
+}
+
+export interface TimeEntry {
+  shift_id: string;
+  date: string;
+  clock_in: string;
+  clock_out: string | null;
+  // Net of breaks
+  hours_worked: number | null;
+  breaks?: BreakSegment[];
+  site_segments?: SiteSegment[];
+  // Missing when the device gave no fix (permission denied, no GPS, timeout)
+  clock_in_location?: PunchLocation | null;
+  clock_out_location?: PunchLocation | null;
+  edited: boolean;
+  // Values before the first approved edit, present when edited is true
+  original_clock_in?: string;
+  original_clock_out?: string | null;
+}
+
+export interface MileageEntry {
+  entry_id: string;
+  date: string;
+  miles: number;
+  description: string;
+  // Trips logged from odometer readings
+  vehicle_id?: string;
+  odometer_start?: number;
+  odometer_end?: number;
+  // Commute miles already taken off `miles`, so reimbursement doesn't take them twice
+  commute_deducted_miles?: number;
+  photos?: Photo[];
+  edited?: boolean;
+  // Values before the first correction, present when edited is true
+  original_date?: string;
+  original_miles?: number;
+  original_description?: string;
+}
+
+// A tech's correction to a mileage entry: the entry's new values in full
+export interface MileageCorrection {
+  date: string;
+  miles: number;
+  description: string;
+}
+
+// Photos listed here are already stored, like an odometer reading's
+export type MileageDetails = Pick<
+  MileageEntry,
+  "vehicle_id" | "odometer_start" | "odometer_end" | "commute_deducted_miles" | "photos"
+>;
+
+export type WeekStatus = "draft" | "submitted" | "approved";
+
+// A tech's sign-off on one week, keyed by its Sunday. Weeks with no record are drafts.
+export interface Timesheet {
+  week_start: string;
+  status: WeekStatus;
+  // What the tech attested to when submitting
+  hours?: number;
+  miles?: number;
+  attestation?: string;
+  submitted_at?: string;
+  approved_by?: string;
+  approved_at?: string;
+  // Set when a manager sends the week back to draft
+  reopened_by?: string;
+  reopened_at?: string;
+  reopen_reason?: string;
+}
+
+export interface TimesheetSubmission {
+  week_start: string;
+  hours: number;
+  miles: number;
+  attestation: string;
+}
+
+export type TimesheetDecision = "approve" | "reopen";
+
+export interface TimesheetResponse extends MutationResponse {
+  timesheet?: Timesheet;
+}
+
+export interface TechnicianListResponse {
+  technicians: Technician[];
+  // Set when the list couldn't be read. technicians may then be a stand-in for
+  // the sign-in picker, never to be taken for the whole team.
+  error?: string;
+}
+
+export interface HistoryResponse {
+  time_entries: TimeEntry[];
+  mileage_entries: MileageEntry[];
+  week_total_hours: number;
+  // Sign-offs for the weeks the history covers
+  timesheets?: Timesheet[];
+  cached_at?: string;
+  // Set when the history couldn't be read; the lists are empty then
+  error?: string;
+}
+
+// Everything the app needs from wherever time data is stored. Implementations
+// never throw; failures come back as { success: false, error }, a result with
+// error set, or an empty result.
+// A change repeated with the same idempotency key (src/lib/idempotency.ts) must
+// not be recorded twice; the repeat gets the first one's result.
+export interface TimeTrackerBackend {
+  fetchTechnicians(): Promise<TechnicianListResponse>;
+  // null when there's no such technician or the list couldn't be read
+  fetchTechnician(techName: string): Promise<Technician | null>;
+  fetchSites(): Promise<Site[]>;
+  checkStatus(techName: string): Promise<StatusResponse>;
+  clockIn(
+    techName: string,
+    timestamp: string,
+    shiftId: string,
+    siteId: string | null,
+    location: PunchLocation | null,
+    idempotencyKey?: string
+  ): Promise<ClockResponse>;
+  switchSite(techName: string, timestamp: string, siteId: string, idempotencyKey?: string): Promise<ClockResponse>;
+  // shiftId is the shift being closed; null (older queued punches) closes
+  // whichever is open
+  clockOut(
+    techName: string,
+    timestamp: string,
+    shiftId: string | null,
+    location: PunchLocation | null,
+    idempotencyKey?: string
+  ): Promise<ClockResponse>;
+  startBreak(techName: string, timestamp: string, idempotencyKey?: string): Promise<ClockResponse>;
+  endBreak(techName: string, timestamp: string, idempotencyKey?: string): Promise<ClockResponse>;
+  submitMileage(
+    techName: string,
+    date: string,
+    miles: number,
+    description: string,
+    details?: MileageDetails,
+    photos?: PhotoUpload[],
+    idempotencyKey?: string
+  ): Promise<MileageResponse>;
+  addMileagePhotos(
+    techName: string,
+    entryId: string,
+    photos: PhotoUpload[],
+    idempotencyKey?: string
+  ): Promise<PhotoResponse>;
+  // Full image as a data URL, or null if it isn't this tech's or can't be found
+  fetchPhoto(techName: string, photoId: string): Promise<string | null>;
+  lastOdometerReading(vehicleId: string): Promise<OdometerReading | null>;
+  recordOdometer(reading: OdometerReading, photo?: PhotoUpload, idempotencyKey?: string): Promise<OdometerResponse>;
+  fetchHistory(techName: string, days: number): Promise<HistoryResponse>;
+  editEntry(
+    techName: string,
+    shiftId: string,
+    field: string,
+    // null for the clock-out of a shift that's still open
+    oldValue: string | null,
+    newValue: string,
+    reason: string,
+    idempotencyKey?: string
+  ): Promise<EditResponse>;
+  editMileage(
+    techName: string,
+    entryId: string,
+    correction: MileageCorrection,
+    reason: string,
+    idempotencyKey?: string
+  ): Promise<EditResponse>;
+  deleteMileage(techName: string, entryId: string, reason: string, idempotencyKey?: string): Promise<EditResponse>;
+  submitTimesheet(
+    techName: string,
+    submission: TimesheetSubmission,
+    idempotencyKey?: string
+  ): Promise<TimesheetResponse>;
+  // Managers approve a submitted week or reopen a submitted or approved one
+  reviewTimesheet(
+    techName: string,
+    weekStart: string,
+    decision: TimesheetDecision,
+    managerName: string,
+    reason: string,
+    idempotencyKey?: string
+  ): Promise<TimesheetResponse>;
+}
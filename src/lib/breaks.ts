@@ -0,0 +1,38 @@
+import type { BreakSegment } from "@/lib/backend/types";
+
+// Unpaid breaks
+// Break time inside a shift comes off its hours. Only the part of a break that
+// falls between clock-in and clock-out counts, so editing the punches never
+// deducts more than the shift itself. A break still running ends at clock-out.
+
+export function openBreak(breaks: BreakSegment[] = []): BreakSegment | undefined {
+  return breaks.find((segment) => segment.end === null);
+}
+
+export function breakMinutes(
+  breaks: BreakSegment[] = [],
+  clockIn: string,
+  clockOut: string | Date = new Date()
+): number {
+  const shiftStart = new Date(clockIn).getTime();
+  const shiftEnd = new Date(clockOut).getTime();
+
+  const totalMs = breaks.reduce((sum, segment) => {
+    const start = Math.max(new Date(segment.start).getTime(), shiftStart);
+    const end = Math.min(segment.end ? new Date(segment.end).getTime() : shiftEnd, shiftEnd);
+    return sum + Math.max(0, end - start);
+  }, 0);
+  return Math.round(totalMs / (1000 * 60));
+}
+
+// Rounded to the quarter hour, like every other hours figure in the app
+export function workedHours(clockIn: string, clockOut: string, breaks: BreakSegment[] = []): number {
+  const shiftMinutes = (new Date(clockOut).getTime() - new Date(clockIn).getTime()) / (1000 * 60);
+  const netHours = (shiftMinutes - breakMinutes(breaks, clockIn, clockOut)) / 60;
+  return Math.round(netHours * 4) / 4;
+}
+
+// Closes a running break at the given time
+export function closeBreaks(breaks: BreakSegment[] = [], timestamp: string): BreakSegment[] {
+  return breaks.map((segment) => (segment.end === null ? { ...segment, end: timestamp } : segment));
+}
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { addDays, dateKeyFor, daysBetween, fromWallClockInput, toWallClockInput, weekStartKey } from "@/lib/businessTime";
+
+// Run with NEXT_PUBLIC_BUSINESS_TIME_ZONE=America/New_York (npm test sets it).
+// In 2026 clocks spring forward at 2am on Sunday March 8 and fall back at 2am
+// on Sunday November 1.
+
+describe("dateKeyFor", () => {
+  test("follows the business zone, not UTC", () => {
+    // 9pm EDT is already the next day in UTC
+    assert.equal(dateKeyFor("2026-07-15T01:00:00Z"), "2026-07-14");
+  });
+
+  test("changes day at local midnight around spring forward", () => {
+    assert.equal(dateKeyFor("2026-03-08T04:59:00Z"), "2026-03-07"); // 11:59pm EST
+    assert.equal(dateKeyFor("2026-03-08T05:00:00Z"), "2026-03-08"); // midnight EST
+    assert.equal(dateKeyFor("2026-03-09T03:59:00Z"), "2026-03-08"); // 11:59pm EDT
+    assert.equal(dateKeyFor("2026-03-09T04:00:00Z"), "2026-03-09"); // midnight EDT
+  });
+
+  test("changes day at local midnight around fall back", () => {
+    assert.equal(dateKeyFor("2026-11-01T03:59:00Z"), "2026-10-31"); // 11:59pm EDT
+    assert.equal(dateKeyFor("2026-11-01T04:00:00Z"), "2026-11-01"); // midnight EDT
+    assert.equal(dateKeyFor("2026-11-02T04:59:00Z"), "2026-11-01"); // 11:59pm EST
+    assert.equal(dateKeyFor("2026-11-02T05:00:00Z"), "2026-11-02"); // midnight EST
+  });
+
+  test("keeps both 1:30ams of the fall-back night on the same day", () => {
+    assert.equal(dateKeyFor("2026-11-01T05:30:00Z"), "2026-11-01"); // 1:30am EDT
+    assert.equal(dateKeyFor("2026-11-01T06:30:00Z"), "2026-11-01"); // 1:30am EST
+  });
+});
+
+describe("addDays", () => {
+  test("steps across the DST changes one calendar day at a time", () => {
+    assert.equal(addDays("2026-03-07", 1), "2026-03-08");
+    assert.equal(addDays("2026-03-08", 1), "2026-03-09");
+    assert.equal(addDays("2026-11-01", -1), "2026-10-31");
+    assert.equal(addDays("2026-11-01", 1), "2026-11-02");
+  });
+
+  test("crosses month and year ends", () => {
+    assert.equal(addDays("2026-03-01", -1), "2026-02-28");
+    assert.equal(addDays("2026-12-31", 1), "2027-01-01");
+    assert.equal(addDays("2026-03-01", 14), "2026-03-15");
+  });
+
+  test("agrees with daysBetween over a DST change", () => {
+    assert.equal(daysBetween("2026-03-01", "2026-03-15"), 14);
+    assert.equal(daysBetween("2026-10-25", "2026-11-08"), 14);
+  });
+});
+
+describe("weekStartKey", () => {
+  test("treats the DST Sundays as the start of their week", () => {
+    assert.equal(weekStartKey("2026-03-08"), "2026-03-08");
+    assert.equal(weekStartKey("2026-03-14"), "2026-03-08");
+    assert.equal(weekStartKey("2026-11-01"), "2026-11-01");
+    assert.equal(weekStartKey("2026-11-07"), "2026-11-01");
+  });
+
+  test("leaves the night before spring forward in the previous week", () => {
+    assert.equal(weekStartKey("2026-03-07"), "2026-03-01");
+    assert.equal(weekStartKey(dateKeyFor("2026-03-08T04:30:00Z")), "2026-03-01"); // 11:30pm EST Saturday
+  });
+
+  test("leaves the night before fall back in the previous week", () => {
+    assert.equal(weekStartKey(dateKeyFor("2026-11-01T03:30:00Z")), "2026-10-25"); // 11:30pm EDT Saturday
+  });
+});
+
+describe("fromWallClockInput", () => {
+  test("reads times either side of spring forward", () => {
+    assert.equal(fromWallClockInput("2026-03-08T01:30")?.toISOString(), "2026-03-08T06:30:00.000Z"); // EST
+    assert.equal(fromWallClockInput("2026-03-08T03:30")?.toISOString(), "2026-03-08T07:30:00.000Z"); // EDT
+  });
+
+  test("moves a skipped time past the gap", () => {
+    assert.equal(fromWallClockInput("2026-03-08T02:30")?.toISOString(), "2026-03-08T07:30:00.000Z"); // 3:30am EDT
+  });
+
+  test("reads times either side of fall back", () => {
+    assert.equal(fromWallClockInput("2026-11-01T00:30")?.toISOString(), "2026-11-01T04:30:00.000Z"); // EDT
+    assert.equal(fromWallClockInput("2026-11-01T02:30")?.toISOString(), "2026-11-01T07:30:00.000Z"); // EST
+  });
+
+  test("takes the daylight-time instance of a repeated time", () => {
+    assert.equal(fromWallClockInput("2026-11-01T01:30")?.toISOString(), "2026-11-01T05:30:00.000Z");
+  });
+
+  test("round-trips through toWallClockInput", () => {
+    for (const value of ["2026-03-07T23:45", "2026-03-08T03:00", "2026-07-14T21:00", "2026-11-01T03:15"]) {
+      const date = fromWallClockInput(value);
+      assert.ok(date);
+      assert.equal(toWallClockInput(date), value);
+    }
+  });
+
+  test("rejects anything that isn't a datetime-local value", () => {
+    assert.equal(fromWallClockInput(""), null);
+    assert.equal(fromWallClockInput("2026-03-08 01:30"), null);
+    assert.equal(fromWallClockInput("2026-03-08"), null);
+  });
+});
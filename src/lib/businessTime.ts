@@ -0,0 +1,130 @@
+// Business calendar
+// Shift dates, week boundaries and displayed times all follow the business's own
+// timezone rather than UTC or whatever zone the phone or server is set to, so a
+// 9pm punch lands on today's date everywhere. Set NEXT_PUBLIC_BUSINESS_TIME_ZONE
+// to an IANA zone name to change it.
+//
+// Date keys are "YYYY-MM-DD" strings for a calendar day in that zone. Arithmetic
+// on keys goes through UTC noon, which no DST change can push onto another day.
+
+export const BUSINESS_TIME_ZONE = process.env.NEXT_PUBLIC_BUSINESS_TIME_ZONE || "America/New_York";
+
+const partsFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: BUSINESS_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function wallClock(date: Date): WallClock {
+  const parts: Record<string, number> = {};
+  for (const part of partsFormatter.formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function toDate(value: Date | string): Date {
+  return typeof value === "string" ? new Date(value) : value;
+}
+
+// Milliseconds the business zone is ahead of UTC at this instant
+function zoneOffsetMs(date: Date): number {
+  const wall = wallClock(date);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Calendar day keys
+
+export function dateKeyFor(value: Date | string): string {
+  const wall = wallClock(toDate(value));
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+}
+
+export function todayKey(now: Date = new Date()): string {
+  return dateKeyFor(now);
+}
+
+function keyToNoonUtc(dateKey: string): Date {
+  return new Date(`${dateKey}T12:00:00Z`);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = keyToNoonUtc(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+export function daysBetween(fromKey: string, toKey: string): number {
+  return Math.round((keyToNoonUtc(toKey).getTime() - keyToNoonUtc(fromKey).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+// 0 = Sunday
+export function dayOfWeek(dateKey: string): number {
+  return keyToNoonUtc(dateKey).getUTCDay();
+}
+
+// Workweeks run Sunday through Saturday
+export function weekStartKey(dateKey: string): string {
+  return addDays(dateKey, -dayOfWeek(dateKey));
+}
+
+// Wall-clock time in the business zone, as used by <input type="datetime-local">
+
+export function toWallClockInput(value: Date | string): string {
+  const wall = wallClock(toDate(value));
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}`;
+}
+
+// Skipped times (spring forward) resolve to the same number of minutes past the
+// gap; repeated times (fall back) resolve to the first, daylight-time instance.
+export function fromWallClockInput(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second || 0);
+  if (isNaN(asUtc)) return null;
+
+  const before = zoneOffsetMs(new Date(asUtc - 12 * 60 * 60 * 1000));
+  const after = zoneOffsetMs(new Date(asUtc + 12 * 60 * 60 * 1000));
+  const early = new Date(asUtc - before);
+  const late = new Date(asUtc - after);
+  if (zoneOffsetMs(early) === before) return early;
+  if (zoneOffsetMs(late) === after) return late;
+  return early;
+}
+
+// Display
+
+export function formatBusinessDate(value: Date | string, options: Intl.DateTimeFormatOptions): string {
+  return toDate(value).toLocaleDateString("en-US", { ...options, timeZone: BUSINESS_TIME_ZONE });
+}
+
+export function formatDateKey(dateKey: string, options: Intl.DateTimeFormatOptions): string {
+  return keyToNoonUtc(dateKey).toLocaleDateString("en-US", { ...options, timeZone: "UTC" });
+}
@@ -0,0 +1,32 @@
+import { BUSINESS_TIME_ZONE, formatDateKey } from "@/lib/businessTime";
+
+// Display formatting shared by the technician and manager screens
+
+export function formatTime(date: Date): string {
+  return date.toLocaleTimeString("en-US", {
+    timeZone: BUSINESS_TIME_ZONE,
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+}
+
+export function getElapsedTime(clockInTime: string): string {
+  const start = new Date(clockInTime);
+  const now = new Date();
+  const diffMs = now.getTime() - start.getTime();
+  const hours = Math.floor(diffMs / (1000 * 60 * 60));
+  const minutes = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+export function getDayName(dateStr: string): string {
+  return formatDateKey(dateStr, { weekday: "short" });
+}
+
+export function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
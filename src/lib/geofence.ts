@@ -0,0 +1,56 @@
+import type { GeofenceStatus, PunchLocation } from "@/lib/backend/types";
+
+// Geofence checks for punch locations
+// A punch counts as inside a fence when the fix's accuracy circle touches it, so
+// a weak indoor fix at the right building isn't flagged. A circle wider than the
+// fence itself (a cell-tower fix, or a made-up accuracy) proves nothing either
+// way and only touching such a fence is "unknown". With no fix or no fences
+// configured the verdict is "unknown" too, never "outside".
+
+export interface Geofence {
+  name: string;
+  latitude: number;
+  longitude: number;
+  radius_m: number;
+}
+
+export const DEFAULT_GEOFENCE_RADIUS_M = 150;
+
+const EARTH_RADIUS_M = 6371000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Haversine distance, plenty accurate at geofence scale
+export function distanceMeters(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+export function checkGeofence(
+  location: PunchLocation | null,
+  fences: Geofence[]
+): { geofence: GeofenceStatus; geofence_name?: string } {
+  if (!location || fences.length === 0) return { geofence: "unknown" };
+
+  const byGap = fences
+    .map((fence) => ({ fence, gap: distanceMeters(location, fence) - fence.radius_m - location.accuracy_m }))
+    .sort((a, b) => a.gap - b.gap);
+
+  const inside = byGap.find(({ fence, gap }) => gap <= 0 && location.accuracy_m <= fence.radius_m);
+  if (inside) return { geofence: "inside", geofence_name: inside.fence.name };
+
+  const nearest = byGap[0];
+  return {
+    geofence: nearest.gap <= 0 ? "unknown" : "outside",
+    geofence_name: nearest.fence.name,
+  };
+}
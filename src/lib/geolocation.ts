@@ -0,0 +1,30 @@
+import type { PunchLocation } from "@/lib/backend/types";
+
+// Device location for punches
+// Never holds a punch hostage: a denied permission, missing GPS or slow fix
+// just means the punch goes out without a location.
+
+const FIX_TIMEOUT_MS = 5000;
+const MAX_FIX_AGE_MS = 60 * 1000;
+
+export function getPunchLocation(): Promise<PunchLocation | null> {
+  if (typeof navigator === "undefined" || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy_m: Math.round(position.coords.accuracy),
+        }),
+      (error) => {
+        console.warn("No location for punch:", error.message);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout: FIX_TIMEOUT_MS, maximumAge: MAX_FIX_AGE_MS }
+    );
+  });
+}
@@ -0,0 +1,91 @@
+import { addDays, daysBetween, todayKey, weekStartKey } from "@/lib/businessTime";
+import { defaultPayPeriod } from "@/lib/payroll";
+
+// History ranges
+// History is fetched as "the last N days". The History screen starts with two
+// weeks and fetches further back when the tech pages back, picks an older range
+// or moves the calendar to an older month. Ranges only filter what's loaded.
+
+export const DEFAULT_HISTORY_DAYS = 14;
+// How much further back each "Load older" goes
+export const HISTORY_PAGE_DAYS = 28;
+
+export type HistoryRangePreset = "recent" | "this_week" | "last_week" | "pay_period" | "custom";
+
+export interface HistoryRange {
+  preset: HistoryRangePreset;
+  // Unused for "recent", which is everything loaded
+  start: string;
+  end: string;
+}
+
+export const HISTORY_RANGE_LABELS: Record<HistoryRangePreset, string> = {
+  recent: "Recent",
+  this_week: "This week",
+  last_week: "Last week",
+  pay_period: "Pay period",
+  custom: "Custom",
+};
+
+export function historyRangeFor(preset: HistoryRangePreset, now: Date = new Date()): HistoryRange {
+  const today = todayKey(now);
+  const thisWeek = weekStartKey(today);
+  switch (preset) {
+    case "this_week":
+      return { preset, start: thisWeek, end: addDays(thisWeek, 6) };
+    case "last_week":
+      return { preset, start: addDays(thisWeek, -7), end: addDays(thisWeek, -1) };
+    case "pay_period":
+      return { preset, ...defaultPayPeriod() };
+    case "recent":
+    case "custom":
+      return { preset, start: addDays(today, -(DEFAULT_HISTORY_DAYS - 1)), end: today };
+  }
+}
+
+// The first day a fetch of the last `days` days includes
+export function historySince(days: number, now: Date = new Date()): string {
+  return addDays(todayKey(now), -days);
+}
+
+// How many days of history reach back to the given day
+export function historyDaysFor(dateKey: string, now: Date = new Date()): number {
+  return Math.max(daysBetween(dateKey, todayKey(now)), DEFAULT_HISTORY_DAYS);
+}
+
+export function isInRange(range: HistoryRange, dateKey: string): boolean {
+  return range.preset === "recent" || (dateKey >= range.start && dateKey <= range.end);
+}
+
+// Sunday-Saturday weeks, newest first, each with its items in the order given
+export function groupByWeek<T extends { date: string }>(items: T[]): { weekStart: string; items: T[] }[] {
+  const weeks = new Map<string, T[]>();
+  for (const item of items) {
+    const weekStart = weekStartKey(item.date);
+    weeks.set(weekStart, [...(weeks.get(weekStart) ?? []), item]);
+  }
+  return [...weeks.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([weekStart, weekItems]) => ({ weekStart, items: weekItems }));
+}
+
+// Month keys are the month's first day, "YYYY-MM-01"
+export function monthKeyFor(dateKey: string): string {
+  return `${dateKey.slice(0, 7)}-01`;
+}
+
+export function addMonths(monthKey: string, months: number): string {
+  const [year, month] = monthKey.split("-").map(Number);
+  const index = year * 12 + (month - 1) + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}-01`;
+}
+
+// Calendar rows for a month, Sunday first, padded with the neighbouring months' days
+export function calendarWeeks(monthKey: string): string[][] {
+  const last = addDays(addMonths(monthKey, 1), -1);
+  const weeks: string[][] = [];
+  for (let week = weekStartKey(monthKey); week <= last; week = addDays(week, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => addDays(week, i)));
+  }
+  return weeks;
+}
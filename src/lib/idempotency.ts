@@ -0,0 +1,19 @@
+// Idempotency keys
+// Every change the app sends carries a key minted on the device when the tech
+// taps. Retries and offline replays reuse it, so a request that got through but
+// lost its answer is recognized instead of being recorded twice.
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+
+export function newIdempotencyKey(): string {
+  return `idem_${crypto.randomUUID()}`;
+}
+
+export function isIdempotencyKey(value: unknown): value is string {
+  return typeof value === "string" && /^idem_[A-Za-z0-9-]{1,64}$/.test(value);
+}
+
+// For the second change a route makes on behalf of one request
+export function derivedIdempotencyKey(key: string | undefined, suffix: string): string | undefined {
+  return key && `${key}-${suffix}`;
+}
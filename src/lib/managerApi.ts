@@ -0,0 +1,70 @@
+import { authorizedGet, downloadFile, errorMessage } from "@/lib/authorizedFetch";
+import { describeFailure, parseResponse, payrollResponseSchema, teamOverviewSchema } from "@/lib/backend/schemas";
+import type { HistoryResponse, StatusResponse, Technician } from "@/lib/backend/types";
+import type { ClientHoursLine, PayrollFormat, PayrollLine } from "@/lib/payroll";
+
+// Manager dashboard API (src/app/api/manager)
+
+export interface TeamMember {
+  technician: Technician;
+  status: StatusResponse;
+  history: HistoryResponse;
+}
+
+export interface TeamOverviewResponse {
+  success: boolean;
+  team: TeamMember[];
+  error?: string;
+}
+
+// The first technician whose status or history couldn't be read, if any
+export function teamLoadError(team: TeamMember[]): string | null {
+  for (const { technician, status, history } of team) {
+    const error = status.error ?? history.error;
+    if (error) return `${technician.name}: ${error}`;
+  }
+  return null;
+}
+
+export interface PayrollResponse {
+  success: boolean;
+  lines: PayrollLine[];
+  clients: ClientHoursLine[];
+  error?: string;
+}
+
+export async function fetchTeamOverview(days: number = 14): Promise<TeamOverviewResponse> {
+  try {
+    const response = await authorizedGet(`/api/manager/overview?days=${days}`);
+    if (!response.ok) {
+      return { success: false, team: [], error: await errorMessage(response) };
+    }
+
+    return parseResponse(teamOverviewSchema, await response.json(), "team overview");
+  } catch (error) {
+    console.error("Failed to fetch team overview:", error);
+    return { success: false, team: [], error: describeFailure(error) };
+  }
+}
+
+export async function fetchPayroll(start: string, end: string): Promise<PayrollResponse> {
+  try {
+    const response = await authorizedGet(`/api/manager/payroll?start=${start}&end=${end}`);
+    if (!response.ok) {
+      return { success: false, lines: [], clients: [], error: await errorMessage(response) };
+    }
+
+    return parseResponse(payrollResponseSchema, await response.json(), "payroll");
+  } catch (error) {
+    console.error("Failed to fetch payroll:", error);
+    return { success: false, lines: [], clients: [], error: describeFailure(error) };
+  }
+}
+
+export function downloadPayroll(
+  start: string,
+  end: string,
+  format: PayrollFormat
+): Promise<{ success: boolean; error?: string }> {
+  return downloadFile(`/api/manager/payroll?start=${start}&end=${end}&format=${format}`, `payroll.${format}`);
+}
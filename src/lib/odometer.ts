@@ -0,0 +1,58 @@
+import type { OdometerReading } from "@/lib/backend/types";
+
+// Odometer mileage
+// A tech in odometer mode reads the vehicle's odometer at clock-in and clock-out.
+// The difference, less their usual commute (fixed_route_miles), becomes the day's
+// mileage entry. Each reading has to pick up where the vehicle's last one left off.
+
+export const MAX_SHIFT_MILES = 1000;
+
+export function validateOdometerReading(
+  kind: OdometerReading["kind"],
+  reading: number,
+  shiftId: string,
+  previous: OdometerReading | null
+): string | null {
+  if (!Number.isFinite(reading) || reading < 0) return "Enter the odometer reading";
+
+  if (kind === "start") {
+    if (previous && reading < previous.reading) {
+      return `Below this vehicle's last reading of ${previous.reading}`;
+    }
+    return null;
+  }
+
+  if (!previous || previous.kind !== "start" || previous.shift_id !== shiftId) {
+    return "No start reading for this shift";
+  }
+  if (reading < previous.reading) {
+    return `Below the start reading of ${previous.reading}`;
+  }
+  if (reading - previous.reading > MAX_SHIFT_MILES) {
+    return `More than ${MAX_SHIFT_MILES} miles in one shift; check the reading`;
+  }
+  return null;
+}
+
+// The reading already on record, sent again by a retry or the offline queue
+export function isRepeatReading(reading: OdometerReading, previous: OdometerReading | null): boolean {
+  return (
+    !!previous &&
+    previous.tech_name === reading.tech_name &&
+    previous.vehicle_id === reading.vehicle_id &&
+    previous.shift_id === reading.shift_id &&
+    previous.kind === reading.kind &&
+    previous.reading === reading.reading &&
+    previous.timestamp === reading.timestamp
+  );
+}
+
+export function tripMiles(
+  start: number,
+  end: number,
+  commuteMiles: number = 0
+): { miles: number; commute_deducted_miles: number } {
+  const driven = Math.round((end - start) * 10) / 10;
+  const deducted = Math.min(commuteMiles, driven);
+  return { miles: Math.round((driven - deducted) * 10) / 10, commute_deducted_miles: deducted };
+}
@@ -0,0 +1,324 @@
+import {
+  addMileagePhotos,
+  clockIn,
+  clockOut,
+  endBreak,
+  recordOdometer,
+  startBreak,
+  submitMileage,
+  switchSite,
+} from "@/lib/api";
+import type { MutationResponse, OdometerReading, PhotoUpload, PunchLocation } from "@/lib/backend/types";
+import { getSession } from "@/lib/session";
+
+// Offline action queue
+// Punches, mileage, odometer readings and photos that fail to reach the backend
+// are stored in IndexedDB with their original timestamps and replayed in order
+// once we're back online. Only failures that may not have reached the server go
+// in, along with anything the tech does while earlier actions are still waiting.
+// An action the server turned down is set aside until the tech retries or
+// discards it.
+
+const DB_NAME = "ahp_timetracker";
+const DB_VERSION = 1;
+const STORE_NAME = "pending_actions";
+
+// Types
+// "failed" waits for the next sync; "rejected" was refused and won't be sent again
+export type QueuedActionStatus = "pending" | "syncing" | "failed" | "rejected";
+
+interface QueuedActionBase {
+  id?: number;
+  tech_name: string;
+  created_at: string;
+  status: QueuedActionStatus;
+  attempts: number;
+  last_error?: string;
+  // The key the first attempt was sent with; actions queued before keys existed
+  // get a fresh one on each replay
+  idempotency_key?: string;
+}
+
+export interface QueuedClockAction extends QueuedActionBase {
+  type: "clock_in" | "clock_out" | "break_start" | "break_end";
+  timestamp: string;
+  // clock_in and clock_out. A clock-in queued before shift IDs existed gets one
+  // on replay; a clock-out without one closes whichever shift is open.
+  shift_id?: string;
+  site_id?: string | null;
+  // clock_in and clock_out
+  location?: PunchLocation | null;
+}
+
+export interface QueuedSiteSwitchAction extends QueuedActionBase {
+  type: "switch_site";
+  timestamp: string;
+  site_id: string;
+}
+
+export interface QueuedMileageAction extends QueuedActionBase {
+  type: "mileage";
+  date: string;
+  miles: number;
+  description: string;
+  photos?: PhotoUpload[];
+}
+
+export interface QueuedPhotosAction extends QueuedActionBase {
+  type: "photos";
+  entry_id: string;
+  photos: PhotoUpload[];
+}
+
+export interface QueuedOdometerAction extends QueuedActionBase {
+  type: "odometer";
+  reading: OdometerReading;
+  photo?: PhotoUpload;
+}
+
+export type QueuedAction =
+  | QueuedClockAction
+  | QueuedSiteSwitchAction
+  | QueuedMileageAction
+  | QueuedPhotosAction
+  | QueuedOdometerAction;
+
+export type NewQueuedAction =
+  | Omit<QueuedClockAction, "id" | "created_at" | "status" | "attempts" | "last_error">
+  | Omit<QueuedSiteSwitchAction, "id" | "created_at" | "status" | "attempts" | "last_error">
+  | Omit<QueuedMileageAction, "id" | "created_at" | "status" | "attempts" | "last_error">
+  | Omit<QueuedPhotosAction, "id" | "created_at" | "status" | "attempts" | "last_error">
+  | Omit<QueuedOdometerAction, "id" | "created_at" | "status" | "attempts" | "last_error">;
+
+export interface SyncResult {
+  synced: number;
+  remaining: number;
+  // Refused by the server on this pass
+  rejected: number;
+}
+
+// Change listeners so the UI can mirror the queue
+type QueueListener = (actions: QueuedAction[]) => void;
+const listeners = new Set<QueueListener>();
+
+export function subscribeToQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  listPendingActions().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function notifyListeners() {
+  if (listeners.size === 0) return;
+  const actions = await listPendingActions();
+  listeners.forEach((listener) => listener(actions));
+}
+
+// IndexedDB helpers
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Queue operations
+
+export async function listPendingActions(): Promise<QueuedAction[]> {
+  try {
+    const actions = await withStore<QueuedAction[]>("readonly", (store) => store.getAll());
+    // Keys are auto-incremented, so id order is the order the actions happened in
+    return actions.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+  } catch (error) {
+    console.error("Failed to read offline queue:", error);
+    return [];
+  }
+}
+
+export async function enqueueAction(action: NewQueuedAction): Promise<boolean> {
+  try {
+    await withStore("readwrite", (store) =>
+      store.add({
+        ...action,
+        created_at: new Date().toISOString(),
+        status: "pending",
+        attempts: 0,
+      })
+    );
+    await notifyListeners();
+    return true;
+  } catch (error) {
+    console.error("Failed to queue action:", error);
+    return false;
+  }
+}
+
+async function updateAction(action: QueuedAction): Promise<void> {
+  await withStore("readwrite", (store) => store.put(action));
+  await notifyListeners();
+}
+
+async function removeAction(id: number): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+  await notifyListeners();
+}
+
+// Puts a refused action back in line, say once whatever it needed is in place
+export async function retryAction(id: number): Promise<void> {
+  try {
+    const action = await withStore<QueuedAction | undefined>("readonly", (store) => store.get(id));
+    if (action) {
+      await updateAction({ ...action, status: "pending" });
+    }
+  } catch (error) {
+    console.error("Failed to retry queued action:", error);
+  }
+}
+
+// Drops an action the tech has given up on
+export async function discardAction(id: number): Promise<void> {
+  try {
+    await removeAction(id);
+  } catch (error) {
+    console.error("Failed to discard queued action:", error);
+  }
+}
+
+// Whether the action still counts as on its way: it shapes the clock state and
+// holds up sign-off until it's sent or discarded
+export function awaitsSync(action: QueuedAction): boolean {
+  return action.status !== "rejected";
+}
+
+async function hasWaitingActions(techName: string): Promise<boolean> {
+  return (await listPendingActions()).some((action) => action.tech_name === techName && awaitsSync(action));
+}
+
+// Sends a change now, queuing it if it may not have arrived. While earlier
+// actions for the tech are still waiting it joins the queue behind them
+// instead, so a clock-out never reaches the server ahead of its clock-in.
+export async function sendOrQueue<T extends MutationResponse>(
+  action: NewQueuedAction,
+  send: () => Promise<T>
+): Promise<{ response: T; queued: boolean; behindQueue: boolean }> {
+  if ((await hasWaitingActions(action.tech_name)) && (await enqueueAction(action))) {
+    // Never sent, so nothing came back
+    const response = { success: false, retryable: true } as T;
+    return { response, queued: true, behindQueue: true };
+  }
+
+  const response = await send();
+  const queued = !response.success && !!response.retryable && (await enqueueAction(action));
+  return { response, queued, behindQueue: false };
+}
+
+async function sendAction(action: QueuedAction): Promise<MutationResponse> {
+  const key = action.idempotency_key;
+  switch (action.type) {
+    case "clock_in":
+      return clockIn(
+        action.tech_name,
+        action.timestamp,
+        action.shift_id,
+        action.site_id ?? null,
+        action.location ?? null,
+        key
+      );
+    case "clock_out":
+      return clockOut(action.tech_name, action.timestamp, action.shift_id ?? null, action.location ?? null, key);
+    case "switch_site":
+      return switchSite(action.tech_name, action.site_id, action.timestamp, key);
+    case "break_start":
+      return startBreak(action.tech_name, action.timestamp, key);
+    case "break_end":
+      return endBreak(action.tech_name, action.timestamp, key);
+    case "mileage":
+      return submitMileage(action.tech_name, action.date, action.miles, action.description, action.photos, key);
+    case "photos":
+      return addMileagePhotos(action.tech_name, action.entry_id, action.photos, key);
+    case "odometer":
+      return recordOdometer(action.reading, action.photo, key);
+  }
+}
+
+// Replay the signed-in tech's actions oldest-first. Other techs' actions wait
+// until they sign in again. Stops at the first failure that may not have reached
+// the server, so a clock-out is never delivered ahead of the clock-in it belongs
+// to. Actions the server refuses are set aside and the rest carry on. The queue
+// is read again after each action, so anything queued mid-sync goes too.
+let activeSync: Promise<SyncResult> | null = null;
+
+export function syncPendingActions(): Promise<SyncResult> {
+  if (!activeSync) {
+    activeSync = runSync().finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+}
+
+async function runSync(): Promise<SyncResult> {
+  const session = getSession();
+  let synced = 0;
+  let rejected = 0;
+
+  for (;;) {
+    const waiting = (await listPendingActions()).filter(
+      (action) => action.tech_name === session?.tech_name && awaitsSync(action)
+    );
+    const action = waiting[0];
+    if (!action) {
+      return { synced, remaining: 0, rejected };
+    }
+
+    await updateAction({ ...action, status: "syncing" });
+    const response = await sendAction(action);
+
+    if (!response.success) {
+      await updateAction({
+        ...action,
+        status: response.retryable ? "failed" : "rejected",
+        attempts: action.attempts + 1,
+        last_error: response.error || "Sync failed",
+      });
+      if (response.retryable) {
+        return { synced, remaining: waiting.length, rejected };
+      }
+      rejected++;
+      continue;
+    }
+
+    await removeAction(action.id!);
+    synced++;
+  }
+}
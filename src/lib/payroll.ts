@@ -0,0 +1,291 @@
+import type { MileageEntry, Site, Technician, TimeEntry } from "@/lib/backend/types";
+import { addDays, todayKey, weekStartKey } from "@/lib/businessTime";
+import { computeReimbursement, MILEAGE_POLICY, type ReimbursementPolicy } from "@/lib/reimbursement";
+import { siteHours } from "@/lib/siteHours";
+
+// Payroll for a pay period
+// Hours past 40 in a Sunday-Saturday workweek are overtime at 1.5x. Overtime is
+// assigned to the shifts that cross the 40-hour line, in clock-in order, so the
+// per-shift split lines up with the QuickBooks export. A period that starts
+// mid-week still counts that week's earlier shifts toward the 40, so the time
+// entries passed in should reach back to the Sunday before the period starts.
+// Mileage is paid per the reimbursement policy (src/lib/reimbursement.ts).
+
+export const OVERTIME_THRESHOLD_HOURS = 40;
+export const OVERTIME_MULTIPLIER = 1.5;
+
+export interface PayrollInput {
+  technician: Technician;
+  time_entries: TimeEntry[];
+  mileage_entries: MileageEntry[];
+}
+
+export interface PayrollShift {
+  shift_id: string;
+  date: string;
+  regular_hours: number;
+  overtime_hours: number;
+}
+
+export interface PayrollLine {
+  tech_name: string;
+  hourly_rate: number | null;
+  shifts: PayrollShift[];
+  regular_hours: number;
+  overtime_hours: number;
+  regular_pay: number;
+  overtime_pay: number;
+  miles: number;
+  reimbursable_miles: number;
+  mileage_reimbursement: number;
+  total_pay: number;
+}
+
+export interface ClientHoursLine {
+  client: string;
+  site_id: string | null;
+  site_name: string;
+  hours: number;
+  labor_cost: number;
+}
+
+export type PayrollFormat = "csv" | "iif" | "clients";
+
+// Last two complete Sunday-Saturday weeks
+export function defaultPayPeriod(): { start: string; end: string } {
+  const end = addDays(weekStartKey(todayKey()), -1);
+  return { start: addDays(end, -13), end };
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+function inPeriod(dateKey: string, start: string, end: string): boolean {
+  return dateKey >= start && dateKey <= end;
+}
+
+function splitOvertime(entries: TimeEntry[]): PayrollShift[] {
+  const hoursByWeek = new Map<string, number>();
+
+  return [...entries]
+    .sort((a, b) => a.clock_in.localeCompare(b.clock_in))
+    .map((entry) => {
+      const week = weekStartKey(entry.date);
+      const before = hoursByWeek.get(week) ?? 0;
+      const hours = entry.hours_worked ?? 0;
+      hoursByWeek.set(week, before + hours);
+
+      const regular = Math.max(0, Math.min(hours, OVERTIME_THRESHOLD_HOURS - before));
+      return {
+        shift_id: entry.shift_id,
+        date: entry.date,
+        regular_hours: roundHours(regular),
+        overtime_hours: roundHours(hours - regular),
+      };
+    });
+}
+
+export function computePayroll(
+  inputs: PayrollInput[],
+  start: string,
+  end: string,
+  policy: ReimbursementPolicy = MILEAGE_POLICY
+): PayrollLine[] {
+  return inputs.map(({ technician, time_entries, mileage_entries }) => {
+    const completed = time_entries.filter(
+      (entry) => entry.hours_worked !== null && inPeriod(entry.date, weekStartKey(start), end)
+    );
+    // Shifts before the period only count toward the weekly threshold
+    const shifts = splitOvertime(completed).filter((shift) => inPeriod(shift.date, start, end));
+    const rate = technician.hourly_rate ?? null;
+
+    const regularHours = roundHours(shifts.reduce((sum, s) => sum + s.regular_hours, 0));
+    const overtimeHours = roundHours(shifts.reduce((sum, s) => sum + s.overtime_hours, 0));
+    const mileage = computeReimbursement(
+      mileage_entries.filter((entry) => inPeriod(entry.date, start, end)),
+      technician,
+      policy
+    );
+
+    const regularPay = roundMoney(regularHours * (rate ?? 0));
+    const overtimePay = roundMoney(overtimeHours * (rate ?? 0) * OVERTIME_MULTIPLIER);
+    const mileageReimbursement = mileage.amount;
+
+    return {
+      tech_name: technician.name,
+      hourly_rate: rate,
+      shifts,
+      regular_hours: regularHours,
+      overtime_hours: overtimeHours,
+      regular_pay: regularPay,
+      overtime_pay: overtimePay,
+      miles: mileage.miles,
+      reimbursable_miles: mileage.reimbursable_miles,
+      mileage_reimbursement: mileageReimbursement,
+      total_pay: roundMoney(regularPay + overtimePay + mileageReimbursement),
+    };
+  });
+}
+
+// Technicians with hours in the period but no hourly_rate, who'd be paid $0
+export function techsWithoutRate(lines: PayrollLine[]): string[] {
+  return lines
+    .filter((line) => line.hourly_rate === null && line.regular_hours + line.overtime_hours > 0)
+    .map((line) => line.tech_name);
+}
+
+// Generic CSV, one row per technician
+
+function csvField(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function payrollToCsv(lines: PayrollLine[], start: string, end: string): string {
+  const header = [
+    "period_start",
+    "period_end",
+    "technician",
+    "hourly_rate",
+    "regular_hours",
+    "overtime_hours",
+    "regular_pay",
+    "overtime_pay",
+    "miles",
+    "reimbursable_miles",
+    "mileage_reimbursement",
+    "total_pay",
+  ];
+  const rows = lines.map((line) => [
+    start,
+    end,
+    line.tech_name,
+    line.hourly_rate,
+    line.regular_hours,
+    line.overtime_hours,
+    line.regular_pay.toFixed(2),
+    line.overtime_pay.toFixed(2),
+    line.miles,
+    line.reimbursable_miles,
+    line.mileage_reimbursement.toFixed(2),
+    line.total_pay.toFixed(2),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Hours per client and site, for checking contract profitability. Labor cost is
+// at each tech's base rate; overtime premiums aren't spread across clients.
+
+export function computeClientHours(
+  inputs: PayrollInput[],
+  sites: Site[],
+  start: string,
+  end: string
+): ClientHoursLine[] {
+  const lines = new Map<string, ClientHoursLine>();
+
+  for (const { technician, time_entries } of inputs) {
+    const completed = time_entries.filter(
+      (entry) => entry.hours_worked !== null && inPeriod(entry.date, start, end)
+    );
+    for (const entry of completed) {
+      for (const { site_id, hours } of siteHours(entry)) {
+        const site = sites.find((s) => s.site_id === site_id);
+        const key = site_id ?? "";
+        const line = lines.get(key) ?? {
+          client: site?.client ?? (site_id ? "Unknown client" : "No client"),
+          site_id,
+          site_name: site?.name ?? site_id ?? "No site",
+          hours: 0,
+          labor_cost: 0,
+        };
+        line.hours += hours;
+        line.labor_cost += hours * (technician.hourly_rate ?? 0);
+        lines.set(key, line);
+      }
+    }
+  }
+
+  return [...lines.values()]
+    .map((line) => ({ ...line, hours: roundHours(line.hours), labor_cost: roundMoney(line.labor_cost) }))
+    .sort((a, b) => a.client.localeCompare(b.client) || a.site_name.localeCompare(b.site_name));
+}
+
+export function clientHoursToCsv(lines: ClientHoursLine[], start: string, end: string): string {
+  const header = ["period_start", "period_end", "client", "site", "site_id", "hours", "labor_cost"];
+  const rows = lines.map((line) => [
+    start,
+    end,
+    line.client,
+    line.site_name,
+    line.site_id,
+    line.hours,
+    line.labor_cost.toFixed(2),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// QuickBooks Desktop IIF timesheet import, one TIMEACT per shift and payroll item.
+// Mileage reimbursement isn't a timesheet item; add it from the CSV as a payroll addition.
+
+export interface IifOptions {
+  companyName: string;
+  regularPayrollItem: string;
+  overtimePayrollItem: string;
+}
+
+function iifDate(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-");
+  return `${month}/${day}/${year}`;
+}
+
+function iifDuration(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}:${String(totalMinutes % 60).padStart(2, "0")}`;
+}
+
+function iifField(value: string): string {
+  return value.replace(/[\t\r\n]/g, " ");
+}
+
+export function payrollToIif(lines: PayrollLine[], options: IifOptions): string {
+  const rows = [
+    ["!TIMERHDR", "VER", "REL", "COMPANYNAME", "IMPORTEDBEFORE", "FROMTIMER", "COMPANYCREATETIME"],
+    ["TIMERHDR", "8", "0", iifField(options.companyName), "N", "Y", "0"],
+    ["!TIMEACT", "DATE", "JOB", "EMP", "ITEM", "PITEM", "DURATION", "PROJ", "NOTE", "XFERTOPR", "BILLINGSTATUS"],
+  ];
+
+  for (const line of lines) {
+    for (const shift of line.shifts) {
+      const parts: [number, string][] = [
+        [shift.regular_hours, options.regularPayrollItem],
+        [shift.overtime_hours, options.overtimePayrollItem],
+      ];
+      for (const [hours, payrollItem] of parts) {
+        if (hours <= 0) continue;
+        rows.push([
+          "TIMEACT",
+          iifDate(shift.date),
+          "",
+          iifField(line.tech_name),
+          "",
+          iifField(payrollItem),
+          iifDuration(hours),
+          "",
+          iifField(shift.shift_id),
+          "Y",
+          "0",
+        ]);
+      }
+    }
+  }
+
+  return rows.map((row) => row.join("\t")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,62 @@
+import type { Photo, PhotoKind, PhotoUpload } from "@/lib/backend/types";
+
+// Photo attachments
+// Odometer and receipt photos are shrunk on the device before they go anywhere:
+// a JPEG of at most 1600px on the long side for the record, and a small
+// thumbnail that entries carry inline for History. Both travel as data URLs so
+// they can wait in the offline queue alongside the entry they belong to.
+
+export const MAX_PHOTOS_PER_ENTRY = 3;
+export const MAX_IMAGE_LENGTH = 1_500_000;
+export const MAX_THUMBNAIL_LENGTH = 40_000;
+export const JPEG_PREFIX = "data:image/jpeg;base64,";
+
+const IMAGE_MAX_SIDE_PX = 1600;
+const IMAGE_QUALITY = 0.7;
+const THUMBNAIL_MAX_SIDE_PX = 160;
+const THUMBNAIL_QUALITY = 0.6;
+
+export function newPhotoId(): string {
+  return `photo_${crypto.randomUUID()}`;
+}
+
+// Photo IDs end up in file names, so only the shape newPhotoId makes is accepted
+export function isPhotoId(value: unknown): value is string {
+  return typeof value === "string" && /^photo_[A-Za-z0-9-]{1,64}$/.test(value);
+}
+
+export function isJpegDataUrl(value: unknown, maxLength: number): value is string {
+  return typeof value === "string" && value.startsWith(JPEG_PREFIX) && value.length <= maxLength;
+}
+
+export function toPhoto(upload: PhotoUpload): Photo {
+  return { photo_id: upload.photo_id, kind: upload.kind, thumbnail: upload.thumbnail };
+}
+
+// Browser only
+
+function drawScaled(bitmap: ImageBitmap, maxSide: number, quality: number): string {
+  const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", quality);
+}
+
+export async function preparePhoto(file: File, kind: PhotoKind): Promise<PhotoUpload | null> {
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+    const image = drawScaled(bitmap, IMAGE_MAX_SIDE_PX, IMAGE_QUALITY);
+    const thumbnail = drawScaled(bitmap, THUMBNAIL_MAX_SIDE_PX, THUMBNAIL_QUALITY);
+    bitmap.close();
+
+    if (!isJpegDataUrl(image, MAX_IMAGE_LENGTH) || !isJpegDataUrl(thumbnail, MAX_THUMBNAIL_LENGTH)) {
+      return null;
+    }
+    return { photo_id: newPhotoId(), kind, image, thumbnail };
+  } catch (error) {
+    console.error("Failed to prepare photo:", error);
+    return null;
+  }
+}
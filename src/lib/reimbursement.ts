@@ -0,0 +1,133 @@
+import type { MileageEntry, Technician } from "@/lib/backend/types";
+
+// Mileage reimbursement policy
+// Each workday (a date with logged mileage) first has the tech's normal commute,
+// Technician.fixed_route_miles, taken off. The rest is paid at the per-mile rate
+// in effect on that date, subject to the optional daily mile cap and per-period
+// dollar cap. Override the defaults with NEXT_PUBLIC_MILEAGE_POLICY (JSON).
+// Odometer trips (src/lib/odometer.ts) arrive with the commute already taken off
+// and recorded as commute_deducted_miles, which counts against that day's commute.
+
+export interface MileageRate {
+  effective_from: string;
+  rate_per_mile: number;
+}
+
+export interface ReimbursementPolicy {
+  rates: MileageRate[];
+  deduct_fixed_route_miles: boolean;
+  max_miles_per_day?: number;
+  max_amount_per_period?: number;
+}
+
+// IRS standard mileage rates
+export const DEFAULT_POLICY: ReimbursementPolicy = {
+  rates: [
+    { effective_from: "2024-01-01", rate_per_mile: 0.67 },
+    { effective_from: "2025-01-01", rate_per_mile: 0.7 },
+  ],
+  deduct_fixed_route_miles: true,
+};
+
+function loadPolicy(json: string | undefined): ReimbursementPolicy {
+  if (!json) return DEFAULT_POLICY;
+  try {
+    return { ...DEFAULT_POLICY, ...JSON.parse(json) };
+  } catch (error) {
+    console.error("Invalid NEXT_PUBLIC_MILEAGE_POLICY, using defaults:", error);
+    return DEFAULT_POLICY;
+  }
+}
+
+export const MILEAGE_POLICY = loadPolicy(process.env.NEXT_PUBLIC_MILEAGE_POLICY);
+
+export interface ReimbursedMileage {
+  entry_id: string;
+  date: string;
+  miles: number;
+  reimbursable_miles: number;
+  rate_per_mile: number;
+  amount: number;
+}
+
+export interface ReimbursementSummary {
+  entries: ReimbursedMileage[];
+  miles: number;
+  reimbursable_miles: number;
+  amount: number;
+  capped: boolean;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function rateForDate(policy: ReimbursementPolicy, date: string): number {
+  const rate = [...policy.rates]
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from))
+    .filter((r) => r.effective_from <= date)
+    .pop();
+  return rate?.rate_per_mile ?? 0;
+}
+
+export function computeReimbursement(
+  entries: MileageEntry[],
+  technician: Technician | undefined,
+  policy: ReimbursementPolicy = MILEAGE_POLICY
+): ReimbursementSummary {
+  const commuteMiles = policy.deduct_fixed_route_miles ? technician?.fixed_route_miles ?? 0 : 0;
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+  // Commute deduction and daily cap are per day, used up by entries in order
+  const commuteLeft = new Map<string, number>();
+  for (const entry of sorted) {
+    if (entry.commute_deducted_miles === undefined) continue;
+    const commute = commuteLeft.get(entry.date) ?? commuteMiles;
+    commuteLeft.set(entry.date, Math.max(0, commute - entry.commute_deducted_miles));
+  }
+  const dayMilesLeft = new Map<string, number>();
+  let amountLeft = policy.max_amount_per_period ?? Infinity;
+  let capped = false;
+
+  const reimbursed = sorted.map((entry): ReimbursedMileage => {
+    let deducted = 0;
+    if (entry.commute_deducted_miles === undefined) {
+      const commute = commuteLeft.get(entry.date) ?? commuteMiles;
+      deducted = Math.min(commute, entry.miles);
+      commuteLeft.set(entry.date, commute - deducted);
+    }
+
+    let miles = entry.miles - deducted;
+    const dayLeft = dayMilesLeft.get(entry.date) ?? policy.max_miles_per_day ?? Infinity;
+    if (miles > dayLeft) {
+      miles = dayLeft;
+      capped = true;
+    }
+    dayMilesLeft.set(entry.date, dayLeft - miles);
+
+    const rate = rateForDate(policy, entry.date);
+    let amount = round(miles * rate);
+    if (amount > amountLeft) {
+      amount = round(amountLeft);
+      capped = true;
+    }
+    amountLeft -= amount;
+
+    return {
+      entry_id: entry.entry_id,
+      date: entry.date,
+      miles: entry.miles,
+      reimbursable_miles: round(miles),
+      rate_per_mile: rate,
+      amount,
+    };
+  });
+
+  return {
+    entries: reimbursed,
+    miles: round(reimbursed.reduce((sum, e) => sum + e.miles, 0)),
+    reimbursable_miles: round(reimbursed.reduce((sum, e) => sum + e.reimbursable_miles, 0)),
+    amount: round(reimbursed.reduce((sum, e) => sum + e.amount, 0)),
+    capped,
+  };
+}
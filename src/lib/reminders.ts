@@ -0,0 +1,159 @@
+import { addDays, fromWallClockInput, todayKey } from "@/lib/businessTime";
+import { formatTime } from "@/lib/format";
+
+// Reminder notifications
+// Each tech picks their reminders on this device. Whenever their clock state or
+// entries change, the app works out which reminders could still come up and
+// hands that list to the service worker (public/sw.js), which shows each one
+// once it's due: straight away while the app is open, otherwise the next time
+// the browser wakes the worker for a periodic sync.
+
+export interface ReminderSettings {
+  // Hours on the clock before "still clocked in"; null turns it off
+  clocked_in_hours: number | null;
+  // "HH:MM" in the business timezone; null turns it off
+  shift_end_time: string | null;
+  mileage_time: string | null;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  clocked_in_hours: null,
+  shift_end_time: null,
+  mileage_time: null,
+};
+
+export interface ScheduledReminder {
+  id: string;
+  at: string;
+  title: string;
+  body: string;
+}
+
+export interface ReminderState {
+  clockInTime: string | null;
+  workedToday: boolean;
+  loggedMileageToday: boolean;
+  // Odometer-mode trips log themselves
+  logsMileageAutomatically: boolean;
+}
+
+const SETTINGS_KEY_PREFIX = "ahp_reminders_";
+const PERIODIC_SYNC_TAG = "ahp-reminders";
+
+// Settings
+
+export function loadReminderSettings(techName: string): ReminderSettings {
+  try {
+    const raw = localStorage.getItem(`${SETTINGS_KEY_PREFIX}${techName}`);
+    return raw ? { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(raw) } : DEFAULT_REMINDER_SETTINGS;
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+}
+
+export function saveReminderSettings(techName: string, settings: ReminderSettings) {
+  localStorage.setItem(`${SETTINGS_KEY_PREFIX}${techName}`, JSON.stringify(settings));
+}
+
+export function hasReminders(settings: ReminderSettings): boolean {
+  return settings.clocked_in_hours !== null || settings.shift_end_time !== null || settings.mileage_time !== null;
+}
+
+// Planning
+
+function todayAt(time: string, now: Date): Date | null {
+  return fromWallClockInput(`${todayKey(now)}T${time}`);
+}
+
+export function planReminders(
+  settings: ReminderSettings,
+  state: ReminderState,
+  now: Date = new Date()
+): ScheduledReminder[] {
+  const reminders: ScheduledReminder[] = [];
+  const today = todayKey(now);
+
+  if (state.clockInTime && settings.clocked_in_hours !== null) {
+    const at = new Date(new Date(state.clockInTime).getTime() + settings.clocked_in_hours * 60 * 60 * 1000);
+    reminders.push({
+      id: `clocked-in:${state.clockInTime}`,
+      at: at.toISOString(),
+      title: "Still clocked in",
+      body: `You've been on the clock since ${formatTime(new Date(state.clockInTime))}. Forget to clock out?`,
+    });
+  }
+
+  if (state.clockInTime && settings.shift_end_time !== null) {
+    const at = todayAt(settings.shift_end_time, now);
+    if (at && at.getTime() > new Date(state.clockInTime).getTime()) {
+      reminders.push({
+        id: `shift-end:${today}`,
+        at: at.toISOString(),
+        title: "End of your usual shift",
+        body: "You're still clocked in. Clock out if you're done for the day.",
+      });
+    }
+  }
+
+  if (
+    settings.mileage_time !== null &&
+    state.workedToday &&
+    !state.loggedMileageToday &&
+    !state.logsMileageAutomatically
+  ) {
+    const at = todayAt(settings.mileage_time, now);
+    if (at) {
+      reminders.push({
+        id: `mileage:${today}`,
+        at: at.toISOString(),
+        title: "Log today's mileage",
+        body: "You worked today but haven't logged any miles.",
+      });
+    }
+  }
+
+  // Anything more than a day out will be planned again before then
+  const horizon = fromWallClockInput(`${addDays(today, 1)}T23:59`)?.getTime() ?? Infinity;
+  return reminders.filter((reminder) => new Date(reminder.at).getTime() <= horizon);
+}
+
+// Delivery
+
+export function notificationsSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window && "serviceWorker" in navigator;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+// Chrome lets installed apps wake their worker every so often; elsewhere this is a no-op
+async function registerPeriodicCheck(registration: ServiceWorkerRegistration) {
+  const periodicSync = (registration as ServiceWorkerRegistration & {
+    periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> };
+  }).periodicSync;
+  try {
+    await periodicSync?.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60 * 1000 });
+  } catch {
+    // Not installed, or the browser said no
+  }
+}
+
+async function activeWorker(): Promise<ServiceWorker | null> {
+  if (!notificationsSupported() || Notification.permission !== "granted") return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration?.active) return null;
+  await registerPeriodicCheck(registration);
+  return registration.active;
+}
+
+export async function scheduleReminders(reminders: ScheduledReminder[]) {
+  (await activeWorker())?.postMessage({ type: "reminders", reminders });
+}
+
+// Called by the app when the next reminder comes due while it's open
+export async function showDueReminders() {
+  (await activeWorker())?.postMessage({ type: "check-reminders" });
+}
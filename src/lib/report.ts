@@ -0,0 +1,180 @@
+import type { HistoryResponse, MileageEntry, TimeEntry, Timesheet } from "@/lib/backend/types";
+import { breakMinutes } from "@/lib/breaks";
+import { addDays, daysBetween, formatDateKey, weekStartKey } from "@/lib/businessTime";
+import { formatTime } from "@/lib/format";
+import { timesheetFor } from "@/lib/timesheets";
+
+// Printable timesheet report
+// One tech's shifts and mileage for a period, laid out day by day with daily and
+// Sunday-Saturday week totals, for the accountant's signed copy. The report page
+// (src/app/report) prints it and /api/report also renders it as a PDF.
+
+// About two monthly pay periods; the PDF stays a few pages
+export const MAX_REPORT_DAYS = 62;
+
+export interface ReportShift {
+  shift_id: string;
+  clock_in: string;
+  clock_out: string | null;
+  break_minutes: number;
+  hours: number | null;
+  // Set when the punches were changed after the fact
+  edit_note: string | null;
+}
+
+export interface ReportMileage {
+  entry_id: string;
+  description: string;
+  miles: number;
+  // Set when the entry was corrected after it was logged
+  edit_note: string | null;
+}
+
+export interface ReportDay {
+  date: string;
+  shifts: ReportShift[];
+  mileage: ReportMileage[];
+  hours: number;
+  miles: number;
+}
+
+export interface ReportWeek {
+  week_start: string;
+  // The part of the week inside the period
+  start: string;
+  end: string;
+  hours: number;
+  miles: number;
+  timesheet: Timesheet;
+}
+
+export interface TimesheetReport {
+  tech_name: string;
+  start: string;
+  end: string;
+  days: ReportDay[];
+  weeks: ReportWeek[];
+  total_hours: number;
+  total_miles: number;
+  edited_shifts: number;
+  edited_mileage: number;
+  open_shifts: number;
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+function roundMiles(miles: number): number {
+  return Math.round(miles * 10) / 10;
+}
+
+export function reportPeriodError(start: string, end: string): string | null {
+  if (start > end) return "start must be on or before end";
+  if (daysBetween(start, end) + 1 > MAX_REPORT_DAYS) return `A report can cover at most ${MAX_REPORT_DAYS} days`;
+  return null;
+}
+
+export function describeShiftTimes(clockIn: string, clockOut: string | null | undefined): string {
+  const start = formatTime(new Date(clockIn));
+  return clockOut ? `${start} - ${formatTime(new Date(clockOut))}` : `${start} - open`;
+}
+
+function editNote(entry: TimeEntry): string | null {
+  if (!entry.edited) return null;
+  if (entry.original_clock_in === undefined) return "Edited";
+  return `Edited; punched ${describeShiftTimes(entry.original_clock_in, entry.original_clock_out)}`;
+}
+
+function mileageEditNote(entry: MileageEntry): string | null {
+  if (!entry.edited) return null;
+  if (entry.original_miles === undefined || entry.original_date === undefined) return "Edited";
+  const date = formatDateKey(entry.original_date, { month: "numeric", day: "numeric" });
+  return `Edited; logged ${entry.original_miles} mi on ${date}`;
+}
+
+export function buildTimesheetReport(
+  techName: string,
+  history: Pick<HistoryResponse, "time_entries" | "mileage_entries" | "timesheets">,
+  start: string,
+  end: string
+): TimesheetReport {
+  const days: ReportDay[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const shifts = history.time_entries
+      .filter((entry) => entry.date === date)
+      .sort((a, b) => a.clock_in.localeCompare(b.clock_in))
+      .map((entry) => ({
+        shift_id: entry.shift_id,
+        clock_in: entry.clock_in,
+        clock_out: entry.clock_out,
+        break_minutes: entry.clock_out ? breakMinutes(entry.breaks, entry.clock_in, entry.clock_out) : 0,
+        hours: entry.hours_worked,
+        edit_note: editNote(entry),
+      }));
+    const mileage = history.mileage_entries
+      .filter((entry) => entry.date === date)
+      .map((entry) => ({
+        entry_id: entry.entry_id,
+        description: entry.description,
+        miles: entry.miles,
+        edit_note: mileageEditNote(entry),
+      }));
+
+    days.push({
+      date,
+      shifts,
+      mileage,
+      hours: roundHours(shifts.reduce((sum, shift) => sum + (shift.hours ?? 0), 0)),
+      miles: roundMiles(mileage.reduce((sum, entry) => sum + entry.miles, 0)),
+    });
+  }
+
+  const weeks: ReportWeek[] = [];
+  for (const day of days) {
+    const weekStart = weekStartKey(day.date);
+    let week = weeks[weeks.length - 1];
+    if (!week || week.week_start !== weekStart) {
+      week = {
+        week_start: weekStart,
+        start: day.date,
+        end: day.date,
+        hours: 0,
+        miles: 0,
+        timesheet: timesheetFor(history.timesheets, weekStart),
+      };
+      weeks.push(week);
+    }
+    week.end = day.date;
+    week.hours = roundHours(week.hours + day.hours);
+    week.miles = roundMiles(week.miles + day.miles);
+  }
+
+  const shifts = days.flatMap((day) => day.shifts);
+  return {
+    tech_name: techName,
+    start,
+    end,
+    days,
+    weeks,
+    total_hours: roundHours(days.reduce((sum, day) => sum + day.hours, 0)),
+    total_miles: roundMiles(days.reduce((sum, day) => sum + day.miles, 0)),
+    edited_shifts: shifts.filter((shift) => shift.edit_note !== null).length,
+    edited_mileage: days.flatMap((day) => day.mileage).filter((entry) => entry.edit_note !== null).length,
+    open_shifts: shifts.filter((shift) => shift.clock_out === null).length,
+  };
+}
+
+export function describePeriod(start: string, end: string): string {
+  const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", year: "numeric" };
+  return `${formatDateKey(start, options)} - ${formatDateKey(end, options)}`;
+}
+
+// How a week stands in the sign-off flow, for the report's week totals
+export function describeWeekSignOff(timesheet: Timesheet): string {
+  if (timesheet.status === "approved") {
+    return timesheet.approved_by ? `Approved by ${timesheet.approved_by}` : "Approved";
+  }
+  if (timesheet.status === "submitted") return "Submitted by tech, awaiting approval";
+  return "Not submitted";
+}
@@ -0,0 +1,40 @@
+import { authorizedGet, downloadFile, errorMessage } from "@/lib/authorizedFetch";
+import { describeFailure, parseResponse, reportResponseSchema } from "@/lib/backend/schemas";
+import type { TimesheetReport } from "@/lib/report";
+
+// Timesheet report API (src/app/api/report), for the report page
+
+export interface ReportResponse {
+  success: boolean;
+  report?: TimesheetReport;
+  // For the report heading; the name is server configuration
+  company_name?: string;
+  error?: string;
+}
+
+function reportPath(techName: string, start: string, end: string, format: "json" | "pdf"): string {
+  const params = new URLSearchParams({ tech_name: techName, start, end, format });
+  return `/api/report?${params}`;
+}
+
+export async function fetchReport(techName: string, start: string, end: string): Promise<ReportResponse> {
+  try {
+    const response = await authorizedGet(reportPath(techName, start, end, "json"));
+    if (!response.ok) {
+      return { success: false, error: await errorMessage(response) };
+    }
+
+    return parseResponse(reportResponseSchema, await response.json(), "timesheet report");
+  } catch (error) {
+    console.error("Failed to fetch report:", error);
+    return { success: false, error: describeFailure(error) };
+  }
+}
+
+export function downloadReportPdf(
+  techName: string,
+  start: string,
+  end: string
+): Promise<{ success: boolean; error?: string }> {
+  return downloadFile(reportPath(techName, start, end, "pdf"), "timesheet.pdf");
+}
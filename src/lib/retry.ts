@@ -0,0 +1,71 @@
+import { describeFailure, ResponseFormatError } from "@/lib/backend/schemas";
+import type { MutationResponse } from "@/lib/backend/types";
+import { getSession } from "@/lib/session";
+
+// Retries for changes sent to the backend
+// Backends mark a failure retryable when the request may never have arrived or
+// may go through later: no connection, a timeout, a 5xx, rate limiting, or a
+// lapsed session. api.ts tries those again with backoff, using the same
+// idempotency key, before handing the result back.
+
+export const MAX_RETRIES = 3;
+const RETRY_BASE_MS = 500;
+
+// Browser to route handler; longer than the route's own wait on Make.com
+export const REQUEST_TIMEOUT_MS = 12_000;
+
+export class HttpStatusError extends Error {
+  constructor(readonly status: number) {
+    super(`HTTP error! status: ${status}`);
+    this.name = "HttpStatusError";
+  }
+}
+
+// Besides 5xx. A 401 means the session ran out, not that the change was wrong:
+// it can go once the tech signs back in.
+const RETRYABLE_STATUSES = new Set([401, 408, 429]);
+
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || RETRYABLE_STATUSES.has(status);
+}
+
+// Network errors and timeouts are retryable, as are the statuses above. Any
+// other 4xx or a response we couldn't read means the backend turned the change
+// down, so trying again won't help.
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpStatusError) return isRetryableStatus(error.status);
+  return !(error instanceof ResponseFormatError);
+}
+
+export function failedMutation(error: unknown): MutationResponse {
+  const signedOut = error instanceof HttpStatusError && error.status === 401;
+  return {
+    success: false,
+    error: signedOut ? "Please sign in again" : describeFailure(error),
+    retryable: isRetryable(error),
+  };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function withRetries<T extends MutationResponse>(send: () => Promise<T>): Promise<T> {
+  for (let attempts = 1; ; attempts++) {
+    const response = await send();
+    if (response.success) {
+      return { ...response, attempts, delivery: attempts > 1 ? "succeeded_after_retry" : "succeeded" };
+    }
+
+    // Offline or signed out there's nothing to wait for; the offline queue takes
+    // it from here
+    const offline = typeof navigator !== "undefined" && !navigator.onLine;
+    const signedOut = typeof localStorage !== "undefined" && !getSession();
+    if (!response.retryable || attempts > MAX_RETRIES || offline || signedOut) {
+      return { ...response, attempts, delivery: "failed_permanently" };
+    }
+
+    // 0.5s, 1s, 2s, give or take half, so a crowd of phones doesn't retry in step
+    await wait(RETRY_BASE_MS * 2 ** (attempts - 1) * (0.5 + Math.random()));
+  }
+}
@@ -0,0 +1,143 @@
+import "server-only";
+
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import {
+  MANAGER_NAMES,
+  MAX_PIN_ATTEMPTS,
+  PIN_LOCKOUT_MINUTES,
+  SESSION_SECRET,
+  SESSION_TTL_HOURS,
+} from "@/lib/server/config";
+import { createJsonFile, dataFilePath } from "@/lib/server/jsonFile";
+
+// Technician PINs and sessions
+// PIN hashes and lockout counters live in a server-side file (.data/auth.json,
+// or AHP_AUTH_FILE). Hashes are "scrypt:<salt hex>:<hash hex>", the same format
+// scripts/set-pin.mjs writes. Sessions are stateless HMAC-signed tokens.
+
+export type Role = "tech" | "manager";
+
+export interface Session {
+  tech_name: string;
+  role: Role;
+  expires_at: string;
+}
+
+export type LoginResult =
+  | { success: true; token: string; role: Role; expires_at: string }
+  | { success: false; error: string; locked_until?: string };
+
+interface Lockout {
+  failed_attempts: number;
+  locked_until?: string;
+}
+
+interface AuthData {
+  pins: Record<string, string>;
+  lockouts: Record<string, Lockout>;
+}
+
+const authFile = createJsonFile<AuthData>(dataFilePath(process.env.AHP_AUTH_FILE, "auth.json"), () => ({
+  pins: {},
+  lockouts: {},
+}));
+
+// Without a configured secret, sessions only last until the server restarts
+const sessionSecret = SESSION_SECRET || randomBytes(32).toString("hex");
+if (!SESSION_SECRET) {
+  console.warn("AHP_SESSION_SECRET is not set; sessions will not survive a restart");
+}
+
+// PINs
+
+function verifyPin(pin: string, stored: string): boolean {
+  const [scheme, saltHex, hashHex] = stored.split(":");
+  if (scheme !== "scrypt" || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = scryptSync(pin, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Tokens are "<base64url JSON session>.<base64url HMAC>"
+
+function sign(payload: string): string {
+  return createHmac("sha256", sessionSecret).update(payload).digest("base64url");
+}
+
+function issueToken(techName: string): { token: string; role: Role; expires_at: string } {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString();
+  const role: Role = MANAGER_NAMES.includes(techName) ? "manager" : "tech";
+  const session: Session = { tech_name: techName, role, expires_at: expiresAt };
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, role, expires_at: expiresAt };
+}
+
+export function verifyToken(token: string): Session | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const session: Session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (new Date(session.expires_at).getTime() <= Date.now()) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function getSession(request: Request): Session | null {
+  const header = request.headers.get("Authorization");
+  if (!header?.startsWith("Bearer ")) return null;
+  return verifyToken(header.slice("Bearer ".length));
+}
+
+// Sign-in with lockout after repeated wrong PINs
+
+export function login(techName: string, pin: string): Promise<LoginResult> {
+  return authFile.update((data): LoginResult => {
+    const now = Date.now();
+    const lockout = data.lockouts[techName] ?? { failed_attempts: 0 };
+
+    if (lockout.locked_until && new Date(lockout.locked_until).getTime() > now) {
+      return {
+        success: false,
+        error: "Too many wrong PINs. Try again later.",
+        locked_until: lockout.locked_until,
+      };
+    }
+
+    const storedHash = data.pins[techName];
+    if (!storedHash) {
+      return { success: false, error: "No PIN set up yet. Ask the office to set one." };
+    }
+
+    if (!verifyPin(pin, storedHash)) {
+      const failedAttempts = (lockout.locked_until ? 0 : lockout.failed_attempts) + 1;
+
+      if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+        const lockedUntil = new Date(now + PIN_LOCKOUT_MINUTES * 60 * 1000).toISOString();
+        data.lockouts[techName] = { failed_attempts: failedAttempts, locked_until: lockedUntil };
+        return {
+          success: false,
+          error: `Too many wrong PINs. Locked for ${PIN_LOCKOUT_MINUTES} minutes.`,
+          locked_until: lockedUntil,
+        };
+      }
+
+      data.lockouts[techName] = { failed_attempts: failedAttempts };
+      const remaining = MAX_PIN_ATTEMPTS - failedAttempts;
+      return {
+        success: false,
+        error: `Wrong PIN. ${remaining} attempt${remaining > 1 ? "s" : ""} left.`,
+      };
+    }
+
+    delete data.lockouts[techName];
+    return { success: true, ...issueToken(techName) };
+  });
+}
@@ -0,0 +1,18 @@
+import "server-only";
+
+import type { TimeTrackerBackend } from "@/lib/backend/types";
+import { SERVER_BACKEND } from "@/lib/server/config";
+import { makeWebhooksBackend } from "@/lib/server/makeWebhooks";
+import { mockBackend } from "@/lib/server/mockBackend";
+import { fileStoreBackend } from "@/lib/server/store";
+
+// Backend the route handlers forward to, chosen with AHP_BACKEND
+// "make" (default) calls the Make.com scenarios, "local" uses the data file,
+// "mock" uses the data file over a deliberately unreliable connection.
+const BACKENDS: Record<typeof SERVER_BACKEND, TimeTrackerBackend> = {
+  make: makeWebhooksBackend,
+  local: fileStoreBackend,
+  mock: mockBackend,
+};
+
+export const serverBackend: TimeTrackerBackend = BACKENDS[SERVER_BACKEND];
@@ -0,0 +1,57 @@
+import "server-only";
+
+// Server-only configuration. Nothing here may be imported from client code.
+
+export type ServerBackendName = "make" | "local" | "mock";
+
+export const SERVER_BACKEND: ServerBackendName =
+  process.env.AHP_BACKEND === "local" || process.env.AHP_BACKEND === "mock" ? process.env.AHP_BACKEND : "make";
+
+// Share of changes the mock backend drops, half before and half after recording them
+export const MOCK_FAILURE_RATE = Number(process.env.AHP_MOCK_FAILURE_RATE ?? 0.3);
+
+// Make.com webhook URLs
+export const WEBHOOKS = {
+  timeclock: process.env.AHP_WEBHOOK_TIMECLOCK || "https://hook.us1.make.com/s18wy9mdtycogijuy774ya870fc7rcr6",
+  status: process.env.AHP_WEBHOOK_STATUS || "https://hook.us1.make.com/77p47he4rv3y6x005p5dsong3wkpo3p3",
+  technicians: process.env.AHP_WEBHOOK_TECHNICIANS || "https://hook.us1.make.com/t7bpro4mjh5et17xyfww7mujmzfsuanp",
+  mileage: process.env.AHP_WEBHOOK_MILEAGE || "https://hook.us1.make.com/9eond226tb432cpwyu9fg1n5uijn3o4r",
+  history: process.env.AHP_WEBHOOK_HISTORY || "https://hook.us1.make.com/vaupr44q2xo1kla8y5a4u2qouv6t89qc",
+  editEntry: process.env.AHP_WEBHOOK_EDIT_ENTRY || "https://hook.us1.make.com/7r3y3iedkxgjro2lmj2alqvv2lf7fd9b",
+  // No scenarios exist for these yet; without them the site list is empty,
+  // odometer readings are refused, full-size photos can't be opened, weeks
+  // can't be submitted and mileage entries can't be corrected
+  sites: process.env.AHP_WEBHOOK_SITES || "",
+  odometer: process.env.AHP_WEBHOOK_ODOMETER || "",
+  photos: process.env.AHP_WEBHOOK_PHOTOS || "",
+  timesheets: process.env.AHP_WEBHOOK_TIMESHEETS || "",
+  mileageEdit: process.env.AHP_WEBHOOK_MILEAGE_EDIT || "",
+};
+
+// How long to wait on a scenario before reporting the call as retryable; shorter
+// than the browser's own timeout (REQUEST_TIMEOUT_MS in src/lib/retry.ts)
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Shared secret used to sign every upstream webhook call (see signRequest)
+export const WEBHOOK_SECRET = process.env.AHP_WEBHOOK_SECRET || "";
+
+// Technician sign-in
+export const SESSION_SECRET = process.env.AHP_SESSION_SECRET || "";
+export const SESSION_TTL_HOURS = Number(process.env.AHP_SESSION_TTL_HOURS) || 24;
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MINUTES = 15;
+
+// People who may open the manager dashboard, by the name they sign in with
+export const MANAGER_NAMES = (process.env.AHP_MANAGERS || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+// The shop's geofence, as JSON: {"name","latitude","longitude","radius_m"}.
+// Client sites with coordinates are fences too (see src/lib/server/geofences.ts).
+export const SHOP_GEOFENCE = process.env.AHP_SHOP_GEOFENCE || "";
+
+// Payroll export
+export const COMPANY_NAME = process.env.AHP_COMPANY_NAME || "Atlanta Houseplants";
+export const QB_REGULAR_PAYROLL_ITEM = process.env.AHP_QB_REGULAR_ITEM || "Hourly Rate";
+export const QB_OVERTIME_PAYROLL_ITEM = process.env.AHP_QB_OVERTIME_ITEM || "Overtime Rate";
@@ -0,0 +1,48 @@
+import "server-only";
+
+import type { PunchLocation } from "@/lib/backend/types";
+import { checkGeofence, DEFAULT_GEOFENCE_RADIUS_M, type Geofence } from "@/lib/geofence";
+import { serverBackend } from "@/lib/server/backend";
+import { SHOP_GEOFENCE } from "@/lib/server/config";
+
+// Geofences for punch checks: the shop plus every client site with coordinates
+
+function shopGeofence(): Geofence | null {
+  if (!SHOP_GEOFENCE) return null;
+  try {
+    const fence = JSON.parse(SHOP_GEOFENCE);
+    return {
+      name: fence.name || "Shop",
+      latitude: fence.latitude,
+      longitude: fence.longitude,
+      radius_m: fence.radius_m || DEFAULT_GEOFENCE_RADIUS_M,
+    };
+  } catch (error) {
+    console.error("Invalid AHP_SHOP_GEOFENCE:", error);
+    return null;
+  }
+}
+
+export async function loadGeofences(): Promise<Geofence[]> {
+  const sites = await serverBackend.fetchSites();
+  const siteFences = sites
+    .filter((site) => typeof site.latitude === "number" && typeof site.longitude === "number")
+    .map((site) => ({
+      name: site.name,
+      latitude: site.latitude!,
+      longitude: site.longitude!,
+      radius_m: site.radius_m || DEFAULT_GEOFENCE_RADIUS_M,
+    }));
+
+  const shop = shopGeofence();
+  return shop ? [shop, ...siteFences] : siteFences;
+}
+
+// Stamps a reported fix with the server's geofence verdict
+export async function locatePunch(
+  fix: { latitude: number; longitude: number; accuracy_m: number } | null
+): Promise<PunchLocation | null> {
+  if (!fix) return null;
+  const location = { latitude: fix.latitude, longitude: fix.longitude, accuracy_m: fix.accuracy_m };
+  return { ...location, ...checkGeofence(location, await loadGeofences()) };
+}
@@ -0,0 +1,105 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import type { PhotoUpload } from "@/lib/backend/types";
+import { IDEMPOTENCY_HEADER, isIdempotencyKey } from "@/lib/idempotency";
+import { isJpegDataUrl, isPhotoId, MAX_IMAGE_LENGTH, MAX_PHOTOS_PER_ENTRY, MAX_THUMBNAIL_LENGTH } from "@/lib/photos";
+import { getSession } from "@/lib/server/auth";
+
+// Shared bits for the route handlers in src/app/api
+
+export function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+export async function readJsonBody(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+export function isIsoTimestamp(value: unknown): value is string {
+  return typeof value === "string" && !isNaN(Date.parse(value));
+}
+
+export function isDateKey(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+// A device location fix; the geofence verdict is the server's to fill in
+export function isPunchLocation(
+  value: unknown
+): value is { latitude: number; longitude: number; accuracy_m: number } {
+  if (!value || typeof value !== "object") return false;
+  const { latitude, longitude, accuracy_m } = value as Record<string, unknown>;
+  return (
+    typeof latitude === "number" && Math.abs(latitude) <= 90 &&
+    typeof longitude === "number" && Math.abs(longitude) <= 180 &&
+    typeof accuracy_m === "number" && Number.isFinite(accuracy_m) && accuracy_m >= 0
+  );
+}
+
+export function isPhotoUpload(value: unknown): value is PhotoUpload {
+  if (!value || typeof value !== "object") return false;
+  const { photo_id, kind, image, thumbnail } = value as Record<string, unknown>;
+  return (
+    isPhotoId(photo_id) &&
+    (kind === "odometer" || kind === "receipt") &&
+    isJpegDataUrl(image, MAX_IMAGE_LENGTH) &&
+    isJpegDataUrl(thumbnail, MAX_THUMBNAIL_LENGTH)
+  );
+}
+
+export function isPhotoUploadList(value: unknown): value is PhotoUpload[] {
+  return Array.isArray(value) && value.length <= MAX_PHOTOS_PER_ENTRY && value.every(isPhotoUpload);
+}
+
+// Changes may carry an Idempotency-Key header, which goes on to the backend
+export function readIdempotencyKey(request: Request): string | undefined {
+  return request.headers.get(IDEMPOTENCY_HEADER) ?? undefined;
+}
+
+export function checkIdempotencyKey(request: Request): NextResponse | null {
+  const key = readIdempotencyKey(request);
+  return key === undefined || isIdempotencyKey(key) ? null : badRequest(`${IDEMPOTENCY_HEADER} is malformed`);
+}
+
+// Technician routes only act for the technician whose session token was sent
+export function authorizeTech(request: Request, techName: string): NextResponse | null {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ success: false, error: "Please sign in again" }, { status: 401 });
+  }
+  if (session.tech_name !== techName) {
+    return NextResponse.json(
+      { success: false, error: `Signed in as ${session.tech_name}` },
+      { status: 403 }
+    );
+  }
+  return null;
+}
+
+// For reads a manager may also make, like opening a tech's photos
+export function authorizeTechOrManager(request: Request, techName: string): NextResponse | null {
+  if (getSession(request)?.role === "manager") return null;
+  return authorizeTech(request, techName);
+}
+
+// Manager routes read and act on every technician's data
+export function authorizeManager(request: Request): NextResponse | null {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ success: false, error: "Please sign in again" }, { status: 401 });
+  }
+  if (session.role !== "manager") {
+    return NextResponse.json({ success: false, error: "Managers only" }, { status: 403 });
+  }
+  return null;
+}
@@ -0,0 +1,53 @@
+import "server-only";
+
+import { promises as fs } from "fs";
+import path from "path";
+
+// A JSON document on disk with serialized read-modify-write updates. Writes are
+// only serialized in-process, which is enough for a single Next.js server.
+
+export interface JsonFile<T> {
+  read(): Promise<T>;
+  update<R>(change: (data: T) => R): Promise<R>;
+}
+
+export function dataFilePath(envValue: string | undefined, fileName: string): string {
+  return envValue || path.join(process.cwd(), ".data", fileName);
+}
+
+export function createJsonFile<T>(filePath: string, defaults: () => T): JsonFile<T> {
+  async function read(): Promise<T> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      return { ...defaults(), ...JSON.parse(raw) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return defaults();
+      }
+      throw error;
+    }
+  }
+
+  async function write(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    const tmpFile = `${filePath}.tmp`;
+    await fs.writeFile(tmpFile, JSON.stringify(data, null, 2));
+    await fs.rename(tmpFile, filePath);
+  }
+
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  function update<R>(change: (data: T) => R): Promise<R> {
+    const run = writeQueue.then(async () => {
+      const data = await read();
+      const result = change(data);
+      await write(data);
+      return result;
+    });
+    writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  return { read, update };
+}
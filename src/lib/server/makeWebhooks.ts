@@ -0,0 +1,520 @@
+import "server-only";
+
+import type {
+  ClockResponse,
+  EditResponse,
+  HistoryResponse,
+  MileageCorrection,
+  MileageDetails,
+  MileageResponse,
+  OdometerReading,
+  OdometerResponse,
+  PhotoResponse,
+  PhotoUpload,
+  PunchLocation,
+  Site,
+  StatusResponse,
+  Technician,
+  TechnicianListResponse,
+  TimesheetDecision,
+  TimesheetResponse,
+  TimesheetSubmission,
+  TimeTrackerBackend,
+} from "@/lib/backend/types";
+import {
+  clockResponseSchema,
+  describeFailure,
+  editResponseSchema,
+  historyResponseSchema,
+  mileageResponseSchema,
+  odometerLookupSchema,
+  odometerResponseSchema,
+  parseResponse,
+  photoImageSchema,
+  photoResponseSchema,
+  ResponseFormatError,
+  sitePayloadSchema,
+  statusResponseSchema,
+  technicianPayloadSchema,
+  timesheetResponseSchema,
+  type Schema,
+} from "@/lib/backend/schemas";
+import { dateKeyFor } from "@/lib/businessTime";
+import { toPhoto } from "@/lib/photos";
+import { failedMutation, HttpStatusError } from "@/lib/retry";
+import { WEBHOOK_TIMEOUT_MS, WEBHOOKS } from "@/lib/server/config";
+import { signRequest } from "@/lib/server/signing";
+
+// Make.com scenarios, called from the server with signed requests. Changes carry
+// the app's idempotency_key; a scenario that sees a key again should answer as
+// it did the first time rather than add another row.
+
+function getWebhook(url: string, params: Record<string, string> = {}): Promise<Response> {
+  const query = new URLSearchParams(params).toString();
+  return fetch(query ? `${url}?${query}` : url, {
+    method: "GET",
+    headers: { "Content-Type": "application/json", ...signRequest(query) },
+    cache: "no-store",
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+}
+
+function postWebhook(
+  url: string,
+  idempotencyKey: string | undefined,
+  payload: Record<string, unknown>
+): Promise<Response> {
+  const body = JSON.stringify({ ...payload, idempotency_key: idempotencyKey });
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...signRequest(body) },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+}
+
+async function readJson<T>(response: Response, schema: Schema<T>, what: string): Promise<T> {
+  if (!response.ok) {
+    throw new HttpStatusError(response.status);
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new ResponseFormatError(what, "response", "JSON");
+  }
+  return parseResponse(schema, data, what);
+}
+
+// Make.com answers actions with "Accepted", an empty body, or a JSON result.
+// Anything else (an error page, a scenario's own error text) is a failure.
+async function readActionResponse<T>(
+  response: Response,
+  schema: Schema<T>,
+  what: string,
+  accepted: T
+): Promise<T> {
+  if (!response.ok) {
+    throw new HttpStatusError(response.status);
+  }
+
+  const text = await response.text();
+  if (text === "Accepted" || text === "") {
+    return accepted;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ResponseFormatError(what, "response", "JSON");
+  }
+  return parseResponse(schema, data, what);
+}
+
+async function fetchTechnicians(): Promise<TechnicianListResponse> {
+  try {
+    const response = await getWebhook(WEBHOOKS.technicians);
+    return { technicians: await readJson(response, technicianPayloadSchema, "technician list") };
+  } catch (error) {
+    console.error("Failed to fetch technicians:", error);
+    // Fallback names keep the sign-in picker usable; error keeps anyone from
+    // taking them for the team
+    return { technicians: [{ name: "Bri" }, { name: "Nick" }], error: describeFailure(error) };
+  }
+}
+
+async function fetchTechnician(techName: string): Promise<Technician | null> {
+  const { technicians, error } = await fetchTechnicians();
+  if (error) return null;
+  return technicians.find((technician) => technician.name === techName) ?? null;
+}
+
+async function fetchSites(): Promise<Site[]> {
+  if (!WEBHOOKS.sites) return [];
+
+  try {
+    const response = await getWebhook(WEBHOOKS.sites);
+    return await readJson(response, sitePayloadSchema, "site list");
+  } catch (error) {
+    console.error("Failed to fetch sites:", error);
+    return [];
+  }
+}
+
+async function clockIn(
+  techName: string,
+  timestamp: string,
+  shiftId: string,
+  siteId: string | null,
+  location: PunchLocation | null,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  try {
+    const response = await postWebhook(WEBHOOKS.timeclock, idempotencyKey, {
+      tech_name: techName,
+      action: "clock_in",
+      timestamp,
+      date: dateKeyFor(timestamp),
+      shift_id: shiftId,
+      site_id: siteId,
+      location,
+    });
+
+    return await readActionResponse(response, clockResponseSchema, "clock-in result", {
+      success: true,
+      shift_id: shiftId,
+    });
+  } catch (error) {
+    console.error("Failed to clock in:", error);
+    return failedMutation(error);
+  }
+}
+
+async function clockOut(
+  techName: string,
+  timestamp: string,
+  shiftId: string | null,
+  location: PunchLocation | null,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  try {
+    const response = await postWebhook(WEBHOOKS.timeclock, idempotencyKey, {
+      tech_name: techName,
+      action: "clock_out",
+      timestamp,
+      shift_id: shiftId,
+      location,
+    });
+
+    return await readActionResponse(response, clockResponseSchema, "clock-out result", { success: true });
+  } catch (error) {
+    console.error("Failed to clock out:", error);
+    return failedMutation(error);
+  }
+}
+
+// Breaks and site switches go to the timeclock scenario as their own actions
+async function postShiftChange(
+  techName: string,
+  action: "break_start" | "break_end" | "switch_site",
+  timestamp: string,
+  idempotencyKey: string | undefined,
+  details: Record<string, unknown> = {}
+): Promise<ClockResponse> {
+  try {
+    const response = await postWebhook(WEBHOOKS.timeclock, idempotencyKey, {
+      tech_name: techName,
+      action,
+      timestamp,
+      ...details,
+    });
+
+    return await readActionResponse(response, clockResponseSchema, `${action} result`, { success: true });
+  } catch (error) {
+    console.error(`Failed to record ${action}:`, error);
+    return failedMutation(error);
+  }
+}
+
+function startBreak(techName: string, timestamp: string, idempotencyKey?: string): Promise<ClockResponse> {
+  return postShiftChange(techName, "break_start", timestamp, idempotencyKey);
+}
+
+function endBreak(techName: string, timestamp: string, idempotencyKey?: string): Promise<ClockResponse> {
+  return postShiftChange(techName, "break_end", timestamp, idempotencyKey);
+}
+
+function switchSite(
+  techName: string,
+  timestamp: string,
+  siteId: string,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  return postShiftChange(techName, "switch_site", timestamp, idempotencyKey, { site_id: siteId });
+}
+
+async function checkStatus(techName: string): Promise<StatusResponse> {
+  try {
+    const response = await getWebhook(WEBHOOKS.status, { tech_name: techName });
+    return await readJson(response, statusResponseSchema, "clock status");
+  } catch (error) {
+    console.error("Failed to check status:", error);
+    return { clocked_in: false, error: describeFailure(error) };
+  }
+}
+
+async function submitMileage(
+  techName: string,
+  date: string,
+  miles: number,
+  description: string,
+  details: MileageDetails = {},
+  photos: PhotoUpload[] = [],
+  idempotencyKey?: string
+): Promise<MileageResponse> {
+  try {
+    // photo_uploads carry the full images for the scenario to file away
+    const response = await postWebhook(WEBHOOKS.mileage, idempotencyKey, {
+      tech_name: techName,
+      date,
+      miles,
+      description,
+      ...details,
+      photo_uploads: photos,
+    });
+
+    return await readActionResponse(response, mileageResponseSchema, "mileage result", {
+      success: true,
+      entry_id: `mileage_${crypto.randomUUID()}`,
+    });
+  } catch (error) {
+    console.error("Failed to submit mileage:", error);
+    return failedMutation(error);
+  }
+}
+
+async function addMileagePhotos(
+  techName: string,
+  entryId: string,
+  photos: PhotoUpload[],
+  idempotencyKey?: string
+): Promise<PhotoResponse> {
+  try {
+    const response = await postWebhook(WEBHOOKS.mileage, idempotencyKey, {
+      action: "add_photos",
+      tech_name: techName,
+      entry_id: entryId,
+      photo_uploads: photos,
+    });
+
+    return await readActionResponse(response, photoResponseSchema, "photo result", { success: true });
+  } catch (error) {
+    console.error("Failed to add mileage photos:", error);
+    return failedMutation(error);
+  }
+}
+
+async function fetchPhoto(techName: string, photoId: string): Promise<string | null> {
+  if (!WEBHOOKS.photos) return null;
+
+  try {
+    const response = await getWebhook(WEBHOOKS.photos, { tech_name: techName, photo_id: photoId });
+    const data = await readJson(response, photoImageSchema, "photo");
+    return data.image;
+  } catch (error) {
+    console.error("Failed to fetch photo:", error);
+    return null;
+  }
+}
+
+async function lastOdometerReading(vehicleId: string): Promise<OdometerReading | null> {
+  if (!WEBHOOKS.odometer) return null;
+
+  try {
+    const response = await getWebhook(WEBHOOKS.odometer, { vehicle_id: vehicleId });
+    const data = await readJson(response, odometerLookupSchema, "odometer reading");
+    return data.reading;
+  } catch (error) {
+    console.error("Failed to fetch odometer reading:", error);
+    return null;
+  }
+}
+
+async function recordOdometer(
+  reading: OdometerReading,
+  photo?: PhotoUpload,
+  idempotencyKey?: string
+): Promise<OdometerResponse> {
+  if (!WEBHOOKS.odometer) {
+    return { success: false, error: "Odometer readings aren't set up yet" };
+  }
+
+  try {
+    const response = await postWebhook(WEBHOOKS.odometer, idempotencyKey, {
+      ...reading,
+      photo: photo && toPhoto(photo),
+      photo_upload: photo,
+    });
+
+    return await readActionResponse(response, odometerResponseSchema, "odometer result", { success: true });
+  } catch (error) {
+    console.error("Failed to record odometer reading:", error);
+    return failedMutation(error);
+  }
+}
+
+async function fetchHistory(techName: string, days: number): Promise<HistoryResponse> {
+  try {
+    const response = await getWebhook(WEBHOOKS.history, {
+      tech_name: techName,
+      days: String(days),
+    });
+    return await readJson(response, historyResponseSchema, "history");
+  } catch (error) {
+    console.error("Failed to fetch history:", error);
+    return { time_entries: [], mileage_entries: [], week_total_hours: 0, error: describeFailure(error) };
+  }
+}
+
+async function editEntry(
+  techName: string,
+  shiftId: string,
+  field: string,
+  oldValue: string | null,
+  newValue: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  try {
+    const response = await postWebhook(WEBHOOKS.editEntry, idempotencyKey, {
+      tech_name: techName,
+      shift_id: shiftId,
+      field,
+      old_value: oldValue,
+      new_value: newValue,
+      reason,
+    });
+
+    return await readActionResponse(response, editResponseSchema, "edit result", { success: true });
+  } catch (error) {
+    console.error("Failed to edit entry:", error);
+    return failedMutation(error);
+  }
+}
+
+// Corrections and deletions both go to the mileage edit scenario, which keeps
+// the audit trail; it gets the entry's new values in full
+async function editMileage(
+  techName: string,
+  entryId: string,
+  correction: MileageCorrection,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  if (!WEBHOOKS.mileageEdit) {
+    return { success: false, error: "Mileage corrections aren't set up yet" };
+  }
+
+  try {
+    const response = await postWebhook(WEBHOOKS.mileageEdit, idempotencyKey, {
+      action: "edit",
+      tech_name: techName,
+      entry_id: entryId,
+      ...correction,
+      reason,
+    });
+
+    return await readActionResponse(response, editResponseSchema, "mileage edit result", { success: true });
+  } catch (error) {
+    console.error("Failed to edit mileage entry:", error);
+    return failedMutation(error);
+  }
+}
+
+async function deleteMileage(
+  techName: string,
+  entryId: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  if (!WEBHOOKS.mileageEdit) {
+    return { success: false, error: "Mileage corrections aren't set up yet" };
+  }
+
+  try {
+    const response = await postWebhook(WEBHOOKS.mileageEdit, idempotencyKey, {
+      action: "delete",
+      tech_name: techName,
+      entry_id: entryId,
+      reason,
+    });
+
+    return await readActionResponse(response, editResponseSchema, "mileage delete result", { success: true });
+  } catch (error) {
+    console.error("Failed to delete mileage entry:", error);
+    return failedMutation(error);
+  }
+}
+
+async function submitTimesheet(
+  techName: string,
+  submission: TimesheetSubmission,
+  idempotencyKey?: string
+): Promise<TimesheetResponse> {
+  if (!WEBHOOKS.timesheets) {
+    return { success: false, error: "Timesheet sign-off isn't set up yet" };
+  }
+
+  try {
+    const submittedAt = new Date().toISOString();
+    const response = await postWebhook(WEBHOOKS.timesheets, idempotencyKey, {
+      action: "submit",
+      tech_name: techName,
+      ...submission,
+      submitted_at: submittedAt,
+    });
+
+    return await readActionResponse(response, timesheetResponseSchema, "timesheet result", {
+      success: true,
+      timesheet: { ...submission, status: "submitted", submitted_at: submittedAt },
+    });
+  } catch (error) {
+    console.error("Failed to submit timesheet:", error);
+    return failedMutation(error);
+  }
+}
+
+// The scenario knows each week's current status, so it decides whether the
+// decision applies; "Accepted" leaves the app to refresh history to see it
+async function reviewTimesheet(
+  techName: string,
+  weekStart: string,
+  decision: TimesheetDecision,
+  managerName: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<TimesheetResponse> {
+  if (!WEBHOOKS.timesheets) {
+    return { success: false, error: "Timesheet sign-off isn't set up yet" };
+  }
+
+  try {
+    const response = await postWebhook(WEBHOOKS.timesheets, idempotencyKey, {
+      action: decision,
+      tech_name: techName,
+      week_start: weekStart,
+      manager_name: managerName,
+      reason,
+    });
+
+    return await readActionResponse(response, timesheetResponseSchema, "timesheet result", { success: true });
+  } catch (error) {
+    console.error(`Failed to ${decision} timesheet:`, error);
+    return failedMutation(error);
+  }
+}
+
+export const makeWebhooksBackend: TimeTrackerBackend = {
+  fetchTechnicians,
+  fetchTechnician,
+  fetchSites,
+  checkStatus,
+  clockIn,
+  clockOut,
+  switchSite,
+  startBreak,
+  endBreak,
+  submitMileage,
+  addMileagePhotos,
+  fetchPhoto,
+  lastOdometerReading,
+  recordOdometer,
+  fetchHistory,
+  editEntry,
+  editMileage,
+  deleteMileage,
+  submitTimesheet,
+  reviewTimesheet,
+};
@@ -0,0 +1,64 @@
+import "server-only";
+
+import type { MutationResponse, TimeTrackerBackend } from "@/lib/backend/types";
+import { MOCK_FAILURE_RATE } from "@/lib/server/config";
+import { fileStoreBackend } from "@/lib/server/store";
+
+// Mock backend for trying retries and idempotency keys locally (AHP_BACKEND=mock)
+// Data goes to the local data file, but changes travel over a pretend bad
+// connection: some are dropped before they're recorded and some lose their answer
+// after, like a Make.com call that times out once the row is already in. Tap
+// away, then run `npm run check-duplicates` to confirm nothing landed twice.
+
+const DROPPED: MutationResponse = {
+  success: false,
+  error: "Failed to connect. Please try again.",
+  retryable: true,
+};
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function unreliable<A extends unknown[], R extends MutationResponse>(
+  name: string,
+  change: (...args: A) => Promise<R>
+): (...args: A) => Promise<R> {
+  return async (...args) => {
+    await wait(200 + Math.random() * 1000);
+    // Routes pass the key last
+    const last = args[args.length - 1];
+    const idempotencyKey = typeof last === "string" ? last : "(no key)";
+
+    if (Math.random() < MOCK_FAILURE_RATE / 2) {
+      console.info(`[mock] ${name} ${idempotencyKey}: dropped before recording`);
+      return DROPPED as R;
+    }
+
+    const result = await change(...args);
+    if (Math.random() < MOCK_FAILURE_RATE / 2) {
+      console.info(`[mock] ${name} ${idempotencyKey}: recorded, answer lost`);
+      return DROPPED as R;
+    }
+
+    console.info(`[mock] ${name} ${idempotencyKey}: ${result.success ? "recorded" : result.error}`);
+    return result;
+  };
+}
+
+export const mockBackend: TimeTrackerBackend = {
+  ...fileStoreBackend,
+  clockIn: unreliable("clock_in", fileStoreBackend.clockIn),
+  clockOut: unreliable("clock_out", fileStoreBackend.clockOut),
+  switchSite: unreliable("switch_site", fileStoreBackend.switchSite),
+  startBreak: unreliable("break_start", fileStoreBackend.startBreak),
+  endBreak: unreliable("break_end", fileStoreBackend.endBreak),
+  submitMileage: unreliable("mileage", fileStoreBackend.submitMileage),
+  addMileagePhotos: unreliable("photos", fileStoreBackend.addMileagePhotos),
+  recordOdometer: unreliable("odometer", fileStoreBackend.recordOdometer),
+  editEntry: unreliable("edit", fileStoreBackend.editEntry),
+  editMileage: unreliable("mileage_edit", fileStoreBackend.editMileage),
+  deleteMileage: unreliable("mileage_delete", fileStoreBackend.deleteMileage),
+  submitTimesheet: unreliable("submit_timesheet", fileStoreBackend.submitTimesheet),
+  reviewTimesheet: unreliable("review_timesheet", fileStoreBackend.reviewTimesheet),
+};
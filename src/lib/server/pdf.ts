@@ -0,0 +1,149 @@
+import "server-only";
+
+// Minimal PDF writer
+// Just enough of PDF 1.4 for plain reports: US letter pages, the built-in
+// Helvetica faces and ruled lines, so no font files or PDF library are needed.
+// Text is WinAnsi-encoded; characters outside Latin-1 print as "?".
+// Positions are in points from the top-left corner of the page.
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfTextOptions {
+  size: number;
+  font?: PdfFont;
+  // "right" ends the text at x, for number columns
+  align?: "left" | "right";
+}
+
+export interface PdfPage {
+  content: string[];
+}
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: "F1", baseFont: "Helvetica" },
+  bold: { name: "F2", baseFont: "Helvetica-Bold" },
+};
+
+// Glyph widths in 1/1000 em for characters 32-126, from the standard AFM metrics
+const REGULAR_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Spaces that toLocaleTimeString puts before AM/PM, and dashes, have Latin-1 stand-ins
+function toLatin1(text: string): string {
+  return text
+    .replace(/[\u00a0\u2009\u202f]/g, " ")
+    .replace(/[\u2013\u2014]/g, "-")
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+export function textWidth(text: string, size: number, font: PdfFont = "regular"): number {
+  const widths = font === "bold" ? BOLD_WIDTHS : REGULAR_WIDTHS;
+  let units = 0;
+  for (const char of toLatin1(text)) {
+    units += widths[char.charCodeAt(0) - 32] ?? DEFAULT_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+// Shortens text with "..." so it fits in the given width
+export function fitText(text: string, maxWidth: number, size: number, font: PdfFont = "regular"): string {
+  if (textWidth(text, size, font) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, font) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+function pdfString(text: string): string {
+  let escaped = "";
+  for (const char of toLatin1(text)) {
+    const code = char.charCodeAt(0);
+    if (char === "(" || char === ")" || char === "\\") escaped += `\\${char}`;
+    else if (code > 126) escaped += `\\${code.toString(8).padStart(3, "0")}`;
+    else escaped += char;
+  }
+  return `(${escaped})`;
+}
+
+function coordinate(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+export function newPage(): PdfPage {
+  return { content: [] };
+}
+
+export function drawText(page: PdfPage, x: number, y: number, text: string, options: PdfTextOptions) {
+  const font = options.font ?? "regular";
+  const left = options.align === "right" ? x - textWidth(text, options.size, font) : x;
+  page.content.push(
+    `BT /${FONT_RESOURCES[font].name} ${options.size} Tf ${coordinate(left)} ${coordinate(PAGE_HEIGHT - y)} Td ${pdfString(text)} Tj ET`
+  );
+}
+
+export function drawLine(page: PdfPage, x1: number, y1: number, x2: number, y2: number, width: number = 0.5) {
+  page.content.push(
+    `${width} w ${coordinate(x1)} ${coordinate(PAGE_HEIGHT - y1)} m ${coordinate(x2)} ${coordinate(PAGE_HEIGHT - y2)} l S`
+  );
+}
+
+export function renderPdf(pages: PdfPage[], title: string): Uint8Array<ArrayBuffer> {
+  // Object numbers: 1 catalog, 2 page tree, 3 info, 4-5 fonts, then a page and
+  // its content stream for each page
+  const fontObjects = Object.values(FONT_RESOURCES).map(
+    ({ baseFont }) => `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`
+  );
+  const fontRefs = Object.values(FONT_RESOURCES)
+    .map(({ name }, i) => `/${name} ${4 + i} 0 R`)
+    .join(" ");
+  const firstPage = 4 + fontObjects.length;
+  const pageRefs = pages.map((_, i) => `${firstPage + i * 2} 0 R`);
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${pages.length} >>`,
+    `<< /Title ${pdfString(title)} /Producer (AHP Time Tracker) >>`,
+    ...fontObjects,
+  ];
+  pages.forEach((page, i) => {
+    const stream = page.content.join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontRefs} >> >> /Contents ${firstPage + i * 2 + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Everything above is ASCII, so string offsets are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = output.length;
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(output);
+}
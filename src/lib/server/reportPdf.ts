@@ -0,0 +1,172 @@
+import "server-only";
+
+import { formatBusinessDate, formatDateKey } from "@/lib/businessTime";
+import { formatTime, getDayName } from "@/lib/format";
+import { describePeriod, describeShiftTimes, describeWeekSignOff, type TimesheetReport } from "@/lib/report";
+import { drawLine, drawText, fitText, newPage, PAGE_HEIGHT, PAGE_WIDTH, renderPdf, type PdfPage } from "@/lib/server/pdf";
+
+// The timesheet report as a PDF, laid out like the printed report page
+
+const MARGIN = 40;
+const ROW_HEIGHT = 14;
+const FOOTER_SPACE = 50;
+const SIGNATURE_SPACE = 130;
+const SIZE = 9;
+
+// Left edges, or right edges for the number columns
+const COLUMNS = {
+  date: MARGIN,
+  times: 108,
+  breakRight: 300,
+  hoursRight: 345,
+  milesRight: 395,
+  notes: 410,
+};
+const NOTES_WIDTH = PAGE_WIDTH - MARGIN - COLUMNS.notes;
+const TIMES_WIDTH = COLUMNS.breakRight - 40 - COLUMNS.times;
+
+function hoursCell(hours: number | null): string {
+  return hours === null ? "--" : hours.toFixed(2);
+}
+
+export function reportToPdf(report: TimesheetReport, companyName: string): Uint8Array<ArrayBuffer> {
+  const pages: PdfPage[] = [];
+  let page = newPage();
+  let y = 0;
+
+  function columnHeader() {
+    const options = { size: 8, font: "bold" as const };
+    drawText(page, COLUMNS.date, y, "DATE", options);
+    drawText(page, COLUMNS.times, y, "IN - OUT / TRIP", options);
+    drawText(page, COLUMNS.breakRight, y, "BREAK", { ...options, align: "right" });
+    drawText(page, COLUMNS.hoursRight, y, "HOURS", { ...options, align: "right" });
+    drawText(page, COLUMNS.milesRight, y, "MILES", { ...options, align: "right" });
+    drawText(page, COLUMNS.notes, y, "NOTES", options);
+    drawLine(page, MARGIN, y + 4, PAGE_WIDTH - MARGIN, y + 4, 1);
+    y += ROW_HEIGHT + 2;
+  }
+
+  function startPage() {
+    page = newPage();
+    pages.push(page);
+    y = MARGIN + 10;
+    drawText(page, MARGIN, y, `${report.tech_name} - ${describePeriod(report.start, report.end)}`, {
+      size: 8,
+    });
+    y += ROW_HEIGHT + 4;
+    columnHeader();
+  }
+
+  function ensureSpace(height: number) {
+    if (y + height > PAGE_HEIGHT - FOOTER_SPACE) startPage();
+  }
+
+  // Title block on the first page
+  pages.push(page);
+  y = MARGIN + 16;
+  drawText(page, MARGIN, y, companyName, { size: 16, font: "bold" });
+  drawText(page, PAGE_WIDTH - MARGIN, y, "Timesheet", { size: 16, font: "bold", align: "right" });
+  y += 22;
+  drawText(page, MARGIN, y, `Technician: ${report.tech_name}`, { size: 11 });
+  drawText(page, PAGE_WIDTH - MARGIN, y, `Period: ${describePeriod(report.start, report.end)}`, {
+    size: 11,
+    align: "right",
+  });
+  y += 16;
+  drawText(
+    page,
+    MARGIN,
+    y,
+    `Generated ${formatBusinessDate(new Date(), { month: "short", day: "numeric", year: "numeric" })} ${formatTime(new Date())}`,
+    { size: 8 }
+  );
+  y += 24;
+  columnHeader();
+
+  for (const week of report.weeks) {
+    for (const day of report.days.filter((d) => d.date >= week.start && d.date <= week.end)) {
+      const rows = Math.max(1, day.shifts.length + day.mileage.length) + 1;
+      ensureSpace(rows * ROW_HEIGHT);
+
+      const dayLabel = `${getDayName(day.date)} ${formatDateKey(day.date, { month: "numeric", day: "numeric" })}`;
+      drawText(page, COLUMNS.date, y, dayLabel, { size: SIZE, font: "bold" });
+
+      if (day.shifts.length === 0 && day.mileage.length === 0) {
+        drawText(page, COLUMNS.times, y, "No time or mileage", { size: SIZE });
+        y += ROW_HEIGHT;
+      }
+      for (const shift of day.shifts) {
+        drawText(page, COLUMNS.times, y, describeShiftTimes(shift.clock_in, shift.clock_out), { size: SIZE });
+        if (shift.break_minutes > 0) {
+          drawText(page, COLUMNS.breakRight, y, `${shift.break_minutes}m`, { size: SIZE, align: "right" });
+        }
+        drawText(page, COLUMNS.hoursRight, y, hoursCell(shift.hours), { size: SIZE, align: "right" });
+        const note = shift.clock_out === null ? "Not clocked out" : shift.edit_note;
+        if (note) drawText(page, COLUMNS.notes, y, fitText(note, NOTES_WIDTH, 8), { size: 8 });
+        y += ROW_HEIGHT;
+      }
+      for (const entry of day.mileage) {
+        drawText(page, COLUMNS.times, y, fitText(entry.description, TIMES_WIDTH, SIZE), { size: SIZE });
+        drawText(page, COLUMNS.milesRight, y, entry.miles.toFixed(1), { size: SIZE, align: "right" });
+        if (entry.edit_note) drawText(page, COLUMNS.notes, y, fitText(entry.edit_note, NOTES_WIDTH, 8), { size: 8 });
+        y += ROW_HEIGHT;
+      }
+
+      if (day.shifts.length + day.mileage.length > 1) {
+        drawText(page, COLUMNS.times, y, "Day total", { size: SIZE, font: "bold" });
+        drawText(page, COLUMNS.hoursRight, y, day.hours.toFixed(2), { size: SIZE, font: "bold", align: "right" });
+        drawText(page, COLUMNS.milesRight, y, day.miles.toFixed(1), { size: SIZE, font: "bold", align: "right" });
+        y += ROW_HEIGHT;
+      }
+      drawLine(page, MARGIN, y - ROW_HEIGHT + 4, PAGE_WIDTH - MARGIN, y - ROW_HEIGHT + 4, 0.25);
+    }
+
+    ensureSpace(ROW_HEIGHT * 2);
+    const weekLabel = `Week of ${formatDateKey(week.week_start, { month: "short", day: "numeric" })}`;
+    drawText(page, COLUMNS.date, y, weekLabel, { size: SIZE, font: "bold" });
+    drawText(page, COLUMNS.hoursRight, y, week.hours.toFixed(2), { size: SIZE, font: "bold", align: "right" });
+    drawText(page, COLUMNS.milesRight, y, week.miles.toFixed(1), { size: SIZE, font: "bold", align: "right" });
+    drawText(page, COLUMNS.notes, y, fitText(describeWeekSignOff(week.timesheet), NOTES_WIDTH, 8), { size: 8 });
+    drawLine(page, MARGIN, y + 4, PAGE_WIDTH - MARGIN, y + 4, 1);
+    y += ROW_HEIGHT * 2;
+  }
+
+  // Totals, notes and signatures stay together at the end
+  ensureSpace(SIGNATURE_SPACE + ROW_HEIGHT * 4);
+  drawText(page, COLUMNS.date, y, "Period total", { size: 11, font: "bold" });
+  drawText(page, COLUMNS.hoursRight, y, report.total_hours.toFixed(2), { size: 11, font: "bold", align: "right" });
+  drawText(page, COLUMNS.milesRight, y, report.total_miles.toFixed(1), { size: 11, font: "bold", align: "right" });
+  y += ROW_HEIGHT + 4;
+  if (report.edited_shifts > 0) {
+    const shifts = report.edited_shifts === 1 ? "1 shift was" : `${report.edited_shifts} shifts were`;
+    drawText(page, MARGIN, y, `${shifts} edited after punching; original times are in the notes.`, { size: 8 });
+    y += ROW_HEIGHT;
+  }
+  if (report.edited_mileage > 0) {
+    const entries = report.edited_mileage === 1 ? "1 mileage entry was" : `${report.edited_mileage} mileage entries were`;
+    drawText(page, MARGIN, y, `${entries} corrected after logging; original miles are in the notes.`, { size: 8 });
+    y += ROW_HEIGHT;
+  }
+  if (report.open_shifts > 0) {
+    drawText(page, MARGIN, y, "Shifts that aren't clocked out aren't counted in the totals.", { size: 8 });
+    y += ROW_HEIGHT;
+  }
+
+  y += 40;
+  for (const role of ["Technician signature", "Manager signature"]) {
+    drawLine(page, MARGIN, y, 360, y);
+    drawLine(page, 390, y, PAGE_WIDTH - MARGIN, y);
+    drawText(page, MARGIN, y + 11, role, { size: 8 });
+    drawText(page, 390, y + 11, "Date", { size: 8 });
+    y += 44;
+  }
+
+  pages.forEach((p, i) => {
+    drawText(p, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 10, `Page ${i + 1} of ${pages.length}`, {
+      size: 8,
+      align: "right",
+    });
+  });
+
+  return renderPdf(pages, `Timesheet - ${report.tech_name} - ${describePeriod(report.start, report.end)}`);
+}
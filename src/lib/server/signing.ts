@@ -0,0 +1,28 @@
+import "server-only";
+
+import { createHmac } from "crypto";
+import { WEBHOOK_SECRET } from "@/lib/server/config";
+
+// Upstream request signing
+// Each webhook call carries X-AHP-Timestamp (unix seconds) and
+// X-AHP-Signature = hex HMAC-SHA256 of "<timestamp>.<payload>" keyed with
+// AHP_WEBHOOK_SECRET, where payload is the raw JSON body for POSTs and the
+// query string (without "?") for GETs. The Make.com scenario recomputes it and
+// drops anything that doesn't match or is more than a few minutes old.
+
+export function signRequest(payload: string): Record<string, string> {
+  if (!WEBHOOK_SECRET) {
+    console.warn("AHP_WEBHOOK_SECRET is not set; webhook calls are unsigned");
+    return {};
+  }
+
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = createHmac("sha256", WEBHOOK_SECRET)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+
+  return {
+    "X-AHP-Timestamp": timestamp,
+    "X-AHP-Signature": signature,
+  };
+}
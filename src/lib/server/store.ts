@@ -0,0 +1,695 @@
+import "server-only";
+
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  ClockResponse,
+  EditResponse,
+  HistoryResponse,
+  MileageCorrection,
+  MileageDetails,
+  MileageEntry,
+  MileageResponse,
+  MutationResponse,
+  OdometerReading,
+  OdometerResponse,
+  PhotoResponse,
+  PhotoUpload,
+  PunchLocation,
+  Site,
+  StatusResponse,
+  Technician,
+  TechnicianListResponse,
+  TimeEntry,
+  Timesheet,
+  TimesheetDecision,
+  TimesheetResponse,
+  TimesheetSubmission,
+  TimeTrackerBackend,
+} from "@/lib/backend/types";
+import { closeBreaks, openBreak, workedHours } from "@/lib/breaks";
+import { addDays, dateKeyFor, todayKey, weekStartKey } from "@/lib/businessTime";
+import { createJsonFile, dataFilePath } from "@/lib/server/jsonFile";
+import { JPEG_PREFIX, MAX_PHOTOS_PER_ENTRY, toPhoto } from "@/lib/photos";
+import { closeSiteSegments, currentSiteId, switchSegments } from "@/lib/siteHours";
+import { isShiftInOrder } from "@/lib/shiftChecks";
+
+// File-backed data store for the self-contained backend
+// Everything lives in one JSON document, which is plenty for a handful of technicians.
+// Photo images are JPEG files in a photos folder beside it.
+
+const DATA_FILE = dataFilePath(process.env.AHP_DATA_FILE, "timetracker.json");
+const PHOTO_DIR = path.join(path.dirname(DATA_FILE), "photos");
+
+const DEFAULT_TECHNICIANS: Technician[] = [{ name: "Bri" }, { name: "Nick" }];
+
+interface StoredShift extends TimeEntry {
+  tech_name: string;
+}
+
+interface StoredMileage extends MileageEntry {
+  tech_name: string;
+  created_at: string;
+  // Deleted entries stay on file for the audit trail but leave every list
+  deleted_at?: string;
+}
+
+interface StoredPhoto {
+  photo_id: string;
+  tech_name: string;
+  created_at: string;
+}
+
+interface StoredEdit {
+  tech_name: string;
+  shift_id: string;
+  field: string;
+  // As stored before the edit; null for the clock-out of a shift left open
+  old_value: string | null;
+  new_value: string;
+  reason: string;
+  created_at: string;
+}
+
+// One changed field of a mileage entry, or its deletion (field "deleted")
+interface StoredMileageEdit {
+  tech_name: string;
+  entry_id: string;
+  field: "date" | "miles" | "description" | "deleted";
+  old_value: string;
+  new_value: string;
+  reason: string;
+  created_at: string;
+}
+
+interface StoredTimesheet extends Timesheet {
+  tech_name: string;
+}
+
+// The answer a change got, kept so a repeat with the same key gets it again
+interface StoredResult {
+  idempotency_key: string;
+  tech_name: string;
+  result: MutationResponse;
+  created_at: string;
+}
+
+interface StoreData {
+  technicians: Technician[];
+  sites: Site[];
+  shifts: StoredShift[];
+  mileage: StoredMileage[];
+  odometer: OdometerReading[];
+  photos: StoredPhoto[];
+  edits: StoredEdit[];
+  mileage_edits: StoredMileageEdit[];
+  timesheets: StoredTimesheet[];
+  results: StoredResult[];
+}
+
+const storeFile = createJsonFile<StoreData>(DATA_FILE, () => ({
+  technicians: DEFAULT_TECHNICIANS,
+  sites: [],
+  shifts: [],
+  mileage: [],
+  odometer: [],
+  photos: [],
+  edits: [],
+  mileage_edits: [],
+  timesheets: [],
+  results: [],
+}));
+
+const readStore = storeFile.read;
+const updateStore = storeFile.update;
+
+// Long enough for anything still sitting in a phone's offline queue
+const RESULT_RETENTION_DAYS = 30;
+
+// A change made at most once per idempotency key. Only successes are kept: a
+// rejected change may go through once whatever blocked it is sorted out.
+function updateOnce<R extends MutationResponse>(
+  techName: string,
+  idempotencyKey: string | undefined,
+  change: (data: StoreData) => R
+): Promise<R> {
+  if (!idempotencyKey) return updateStore(change);
+
+  return updateStore((data) => {
+    const previous = data.results.find(
+      (stored) => stored.idempotency_key === idempotencyKey && stored.tech_name === techName
+    );
+    if (previous) return previous.result as R;
+
+    const result = change(data);
+    if (result.success) {
+      const cutoff = Date.now() - RESULT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      data.results = data.results.filter((stored) => new Date(stored.created_at).getTime() >= cutoff);
+      data.results.push({
+        idempotency_key: idempotencyKey,
+        tech_name: techName,
+        result,
+        created_at: new Date().toISOString(),
+      });
+    }
+    return result;
+  });
+}
+
+// Helpers
+
+function findOpenShift(data: StoreData, techName: string): StoredShift | undefined {
+  return data.shifts.find((shift) => shift.tech_name === techName && shift.clock_out === null);
+}
+
+function toTimeEntry(shift: StoredShift): TimeEntry {
+  const entry: TimeEntry & { tech_name?: string } = { ...shift };
+  delete entry.tech_name;
+  return entry;
+}
+
+function toTimesheet(stored: StoredTimesheet): Timesheet {
+  const timesheet: Timesheet & { tech_name?: string } = { ...stored };
+  delete timesheet.tech_name;
+  return timesheet;
+}
+
+function toMileageEntry(stored: StoredMileage): MileageEntry {
+  const entry: MileageEntry & { tech_name?: string; created_at?: string; deleted_at?: string } = { ...stored };
+  delete entry.tech_name;
+  delete entry.created_at;
+  delete entry.deleted_at;
+  return entry;
+}
+
+function findMileage(data: StoreData, techName: string, entryId: string): StoredMileage | undefined {
+  return data.mileage.find((e) => e.tech_name === techName && e.entry_id === entryId && !e.deleted_at);
+}
+
+// Files go down before the entry that points at them. Photo IDs are checked
+// by the route handlers (isPhotoId), so they're safe as file names.
+async function writePhotoFiles(uploads: PhotoUpload[]): Promise<void> {
+  if (uploads.length === 0) return;
+  await fs.mkdir(PHOTO_DIR, { recursive: true });
+  for (const upload of uploads) {
+    const bytes = Buffer.from(upload.image.slice(JPEG_PREFIX.length), "base64");
+    await fs.writeFile(path.join(PHOTO_DIR, `${upload.photo_id}.jpg`), bytes);
+  }
+}
+
+function addPhotoRecords(data: StoreData, techName: string, uploads: PhotoUpload[]) {
+  const createdAt = new Date().toISOString();
+  for (const upload of uploads) {
+    if (data.photos.some((photo) => photo.photo_id === upload.photo_id)) continue;
+    data.photos.push({ photo_id: upload.photo_id, tech_name: techName, created_at: createdAt });
+  }
+}
+
+// Operations
+
+export async function getTechnicians(): Promise<TechnicianListResponse> {
+  const data = await readStore();
+  return { technicians: data.technicians };
+}
+
+export async function getTechnician(techName: string): Promise<Technician | null> {
+  const data = await readStore();
+  return data.technicians.find((technician) => technician.name === techName) ?? null;
+}
+
+export async function getSites(): Promise<Site[]> {
+  const data = await readStore();
+  return data.sites;
+}
+
+export async function getStatus(techName: string): Promise<StatusResponse> {
+  const data = await readStore();
+  const open = findOpenShift(data, techName);
+  if (!open) return { clocked_in: false };
+
+  const currentBreak = openBreak(open.breaks);
+  return {
+    clocked_in: true,
+    shift_id: open.shift_id,
+    clock_in_time: open.clock_in,
+    elapsed_minutes: Math.floor((Date.now() - new Date(open.clock_in).getTime()) / (1000 * 60)),
+    on_break: !!currentBreak,
+    break_start_time: currentBreak?.start,
+    site_id: currentSiteId(open.site_segments) ?? undefined,
+  };
+}
+
+export function recordClockIn(
+  techName: string,
+  timestamp: string,
+  shiftId: string,
+  siteId: string | null,
+  location: PunchLocation | null,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    if (findOpenShift(data, techName)) {
+      return { success: false, error: "Already clocked in" };
+    }
+    if (data.shifts.some((shift) => shift.shift_id === shiftId)) {
+      return { success: false, error: "Shift ID already in use" };
+    }
+    if (siteId && !data.sites.some((site) => site.site_id === siteId)) {
+      return { success: false, error: "Unknown site" };
+    }
+
+    const shift: StoredShift = {
+      tech_name: techName,
+      shift_id: shiftId,
+      date: dateKeyFor(timestamp),
+      clock_in: timestamp,
+      clock_out: null,
+      hours_worked: null,
+      breaks: [],
+      site_segments: siteId ? [{ site_id: siteId, start: timestamp, end: null }] : [],
+      clock_in_location: location,
+      edited: false,
+    };
+    data.shifts.push(shift);
+    return { success: true, shift_id: shift.shift_id };
+  });
+}
+
+export function recordClockOut(
+  techName: string,
+  timestamp: string,
+  shiftId: string | null,
+  location: PunchLocation | null,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const open = findOpenShift(data, techName);
+    if (!open) {
+      return { success: false, error: "Not clocked in" };
+    }
+    // A late clock-out from the offline queue mustn't close a newer shift
+    if (shiftId && open.shift_id !== shiftId) {
+      return { success: false, error: "That shift has already been closed" };
+    }
+    if (new Date(timestamp).getTime() <= new Date(open.clock_in).getTime()) {
+      return { success: false, error: "Clock-out must be after clock-in" };
+    }
+
+    open.clock_out = timestamp;
+    open.clock_out_location = location;
+    open.breaks = closeBreaks(open.breaks, timestamp);
+    open.site_segments = closeSiteSegments(open.site_segments, timestamp);
+    open.hours_worked = workedHours(open.clock_in, timestamp, open.breaks);
+    return { success: true, shift_id: open.shift_id, hours_worked: open.hours_worked };
+  });
+}
+
+export function recordBreakStart(
+  techName: string,
+  timestamp: string,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const open = findOpenShift(data, techName);
+    if (!open) {
+      return { success: false, error: "Not clocked in" };
+    }
+    if (openBreak(open.breaks)) {
+      return { success: false, error: "Already on break" };
+    }
+
+    open.breaks = [...(open.breaks ?? []), { start: timestamp, end: null }];
+    return { success: true, shift_id: open.shift_id };
+  });
+}
+
+export function recordBreakEnd(
+  techName: string,
+  timestamp: string,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const open = findOpenShift(data, techName);
+    if (!open || !openBreak(open.breaks)) {
+      return { success: false, error: "Not on break" };
+    }
+
+    open.breaks = closeBreaks(open.breaks, timestamp);
+    return { success: true, shift_id: open.shift_id };
+  });
+}
+
+export function recordSiteSwitch(
+  techName: string,
+  timestamp: string,
+  siteId: string,
+  idempotencyKey?: string
+): Promise<ClockResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const open = findOpenShift(data, techName);
+    if (!open) {
+      return { success: false, error: "Not clocked in" };
+    }
+    if (!data.sites.some((site) => site.site_id === siteId)) {
+      return { success: false, error: "Unknown site" };
+    }
+
+    if (currentSiteId(open.site_segments) !== siteId) {
+      open.site_segments = switchSegments(open.site_segments, siteId, timestamp);
+    }
+    return { success: true, shift_id: open.shift_id };
+  });
+}
+
+export async function recordMileage(
+  techName: string,
+  date: string,
+  miles: number,
+  description: string,
+  details: MileageDetails = {},
+  photos: PhotoUpload[] = [],
+  idempotencyKey?: string
+): Promise<MileageResponse> {
+  await writePhotoFiles(photos);
+  return updateOnce(techName, idempotencyKey, (data) => {
+    addPhotoRecords(data, techName, photos);
+    const entry: StoredMileage = {
+      tech_name: techName,
+      entry_id: `mileage_${crypto.randomUUID()}`,
+      date,
+      miles,
+      description,
+      ...details,
+      created_at: new Date().toISOString(),
+    };
+    const attached = [...(details.photos ?? []), ...photos.map(toPhoto)];
+    if (attached.length > 0) entry.photos = attached;
+    data.mileage.push(entry);
+    return { success: true, entry_id: entry.entry_id };
+  });
+}
+
+export async function recordMileagePhotos(
+  techName: string,
+  entryId: string,
+  photos: PhotoUpload[],
+  idempotencyKey?: string
+): Promise<PhotoResponse> {
+  const data = await readStore();
+  if (!findMileage(data, techName, entryId)) {
+    return { success: false, error: "Mileage entry not found" };
+  }
+
+  await writePhotoFiles(photos);
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const entry = findMileage(data, techName, entryId);
+    if (!entry) {
+      return { success: false, error: "Mileage entry not found" };
+    }
+    // A replayed upload replaces the copy already attached
+    const ids = new Set(photos.map((photo) => photo.photo_id));
+    const kept = (entry.photos ?? []).filter((photo) => !ids.has(photo.photo_id));
+    if (kept.length + photos.length > MAX_PHOTOS_PER_ENTRY) {
+      return { success: false, error: `Up to ${MAX_PHOTOS_PER_ENTRY} photos per entry` };
+    }
+    addPhotoRecords(data, techName, photos);
+    entry.photos = [...kept, ...photos.map(toPhoto)];
+    return { success: true };
+  });
+}
+
+export async function getPhoto(techName: string, photoId: string): Promise<string | null> {
+  const data = await readStore();
+  if (!data.photos.some((photo) => photo.photo_id === photoId && photo.tech_name === techName)) {
+    return null;
+  }
+  try {
+    const bytes = await fs.readFile(path.join(PHOTO_DIR, `${photoId}.jpg`));
+    return `${JPEG_PREFIX}${bytes.toString("base64")}`;
+  } catch {
+    return null;
+  }
+}
+
+export async function getLastOdometerReading(vehicleId: string): Promise<OdometerReading | null> {
+  const data = await readStore();
+  const readings = data.odometer
+    .filter((reading) => reading.vehicle_id === vehicleId)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return readings[readings.length - 1] ?? null;
+}
+
+export async function recordOdometerReading(
+  reading: OdometerReading,
+  photo?: PhotoUpload,
+  idempotencyKey?: string
+): Promise<OdometerResponse> {
+  const photos = photo ? [photo] : [];
+  await writePhotoFiles(photos);
+  return updateOnce(reading.tech_name, idempotencyKey, (data) => {
+    addPhotoRecords(data, reading.tech_name, photos);
+    data.odometer.push(photo ? { ...reading, photo: toPhoto(photo) } : reading);
+    return { success: true };
+  });
+}
+
+export async function getHistory(techName: string, days: number): Promise<HistoryResponse> {
+  const data = await readStore();
+  const today = todayKey();
+  const sinceKey = addDays(today, -days);
+  const weekStart = weekStartKey(today);
+
+  const shifts = data.shifts.filter((shift) => shift.tech_name === techName && shift.date >= sinceKey);
+  const mileage = data.mileage.filter(
+    (entry) => entry.tech_name === techName && entry.date >= sinceKey && !entry.deleted_at
+  );
+  const timesheets = data.timesheets.filter(
+    (timesheet) => timesheet.tech_name === techName && timesheet.week_start >= weekStartKey(sinceKey)
+  );
+
+  return {
+    time_entries: shifts.map(toTimeEntry),
+    mileage_entries: mileage.map(toMileageEntry),
+    week_total_hours: shifts
+      .filter((shift) => shift.date >= weekStart)
+      .reduce((sum, shift) => sum + (shift.hours_worked ?? 0), 0),
+    timesheets: timesheets.map(toTimesheet),
+  };
+}
+
+export function recordEdit(
+  techName: string,
+  shiftId: string,
+  field: string,
+  _oldValue: string | null,
+  newValue: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  if (field !== "clock_in" && field !== "clock_out") {
+    return Promise.resolve({ success: false, error: `Cannot edit ${field}` });
+  }
+
+  // The audit trail keeps the stored value, not what the device thought it was
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const shift = data.shifts.find((s) => s.tech_name === techName && s.shift_id === shiftId);
+    if (!shift) {
+      return { success: false, error: "Shift not found" };
+    }
+
+    const clockIn = field === "clock_in" ? newValue : shift.clock_in;
+    const clockOut = field === "clock_out" ? newValue : shift.clock_out;
+    if (!isShiftInOrder(clockIn, clockOut)) {
+      return { success: false, error: "Clock-out must be after clock-in" };
+    }
+    const oldValue = shift[field];
+
+    if (!shift.edited) {
+      shift.original_clock_in = shift.clock_in;
+      shift.original_clock_out = shift.clock_out;
+    }
+    if (field === "clock_in") {
+      shift.clock_in = newValue;
+    } else {
+      // Setting the missing clock-out of an open shift also ends its break and site
+      if (shift.clock_out === null) {
+        shift.breaks = closeBreaks(shift.breaks, newValue);
+        shift.site_segments = closeSiteSegments(shift.site_segments, newValue);
+      }
+      shift.clock_out = newValue;
+    }
+    shift.hours_worked = shift.clock_out ? workedHours(shift.clock_in, shift.clock_out, shift.breaks) : null;
+    shift.edited = true;
+
+    data.edits.push({
+      tech_name: techName,
+      shift_id: shiftId,
+      field,
+      old_value: oldValue,
+      new_value: newValue,
+      reason,
+      created_at: new Date().toISOString(),
+    });
+    return { success: true };
+  });
+}
+
+export function recordMileageEdit(
+  techName: string,
+  entryId: string,
+  correction: MileageCorrection,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const entry = findMileage(data, techName, entryId);
+    if (!entry) {
+      return { success: false, error: "Mileage entry not found" };
+    }
+    // An odometer trip's miles are the difference between its readings
+    if (entry.vehicle_id && correction.miles !== entry.miles) {
+      return { success: false, error: "Miles on an odometer trip come from its readings" };
+    }
+
+    const changes = (["date", "miles", "description"] as const).filter((field) => correction[field] !== entry[field]);
+    if (changes.length === 0) {
+      return { success: false, error: "Nothing changed" };
+    }
+
+    if (!entry.edited) {
+      entry.original_date = entry.date;
+      entry.original_miles = entry.miles;
+      entry.original_description = entry.description;
+    }
+    const createdAt = new Date().toISOString();
+    for (const field of changes) {
+      data.mileage_edits.push({
+        tech_name: techName,
+        entry_id: entryId,
+        field,
+        old_value: String(entry[field]),
+        new_value: String(correction[field]),
+        reason,
+        created_at: createdAt,
+      });
+    }
+    entry.date = correction.date;
+    entry.miles = correction.miles;
+    entry.description = correction.description;
+    entry.edited = true;
+    return { success: true };
+  });
+}
+
+export function recordMileageDeletion(
+  techName: string,
+  entryId: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<EditResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const entry = findMileage(data, techName, entryId);
+    if (!entry) {
+      return { success: false, error: "Mileage entry not found" };
+    }
+
+    entry.deleted_at = new Date().toISOString();
+    data.mileage_edits.push({
+      tech_name: techName,
+      entry_id: entryId,
+      field: "deleted",
+      old_value: `${entry.date} ${entry.miles} mi ${entry.description}`,
+      new_value: "",
+      reason,
+      created_at: entry.deleted_at,
+    });
+    return { success: true };
+  });
+}
+
+function findTimesheet(data: StoreData, techName: string, weekStart: string): StoredTimesheet {
+  let timesheet = data.timesheets.find((t) => t.tech_name === techName && t.week_start === weekStart);
+  if (!timesheet) {
+    timesheet = { tech_name: techName, week_start: weekStart, status: "draft" };
+    data.timesheets.push(timesheet);
+  }
+  return timesheet;
+}
+
+export function recordTimesheetSubmission(
+  techName: string,
+  submission: TimesheetSubmission,
+  idempotencyKey?: string
+): Promise<TimesheetResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const timesheet = findTimesheet(data, techName, submission.week_start);
+    if (timesheet.status !== "draft") {
+      return { success: false, error: `This week is already ${timesheet.status}` };
+    }
+
+    timesheet.status = "submitted";
+    timesheet.hours = submission.hours;
+    timesheet.miles = submission.miles;
+    timesheet.attestation = submission.attestation;
+    timesheet.submitted_at = new Date().toISOString();
+    return { success: true, timesheet: toTimesheet(timesheet) };
+  });
+}
+
+export function recordTimesheetReview(
+  techName: string,
+  weekStart: string,
+  decision: TimesheetDecision,
+  managerName: string,
+  reason: string,
+  idempotencyKey?: string
+): Promise<TimesheetResponse> {
+  return updateOnce(techName, idempotencyKey, (data) => {
+    const timesheet = findTimesheet(data, techName, weekStart);
+    const now = new Date().toISOString();
+
+    if (decision === "approve") {
+      if (timesheet.status !== "submitted") {
+        return { success: false, error: "Only submitted weeks can be approved" };
+      }
+      timesheet.status = "approved";
+      timesheet.approved_by = managerName;
+      timesheet.approved_at = now;
+    } else {
+      if (timesheet.status === "draft") {
+        return { success: false, error: "This week hasn't been submitted" };
+      }
+      // The tech resubmits from scratch; the reopen note stays for the record
+      timesheet.status = "draft";
+      delete timesheet.approved_by;
+      delete timesheet.approved_at;
+      timesheet.reopened_by = managerName;
+      timesheet.reopened_at = now;
+      timesheet.reopen_reason = reason;
+    }
+    return { success: true, timesheet: toTimesheet(timesheet) };
+  });
+}
+
+export const fileStoreBackend: TimeTrackerBackend = {
+  fetchTechnicians: getTechnicians,
+  fetchTechnician: getTechnician,
+  fetchSites: getSites,
+  checkStatus: getStatus,
+  clockIn: recordClockIn,
+  switchSite: recordSiteSwitch,
+  clockOut: recordClockOut,
+  startBreak: recordBreakStart,
+  endBreak: recordBreakEnd,
+  submitMileage: recordMileage,
+  addMileagePhotos: recordMileagePhotos,
+  fetchPhoto: getPhoto,
+  lastOdometerReading: getLastOdometerReading,
+  recordOdometer: recordOdometerReading,
+  fetchHistory: getHistory,
+  editEntry: recordEdit,
+  editMileage: recordMileageEdit,
+  deleteMileage: recordMileageDeletion,
+  submitTimesheet: recordTimesheetSubmission,
+  reviewTimesheet: recordTimesheetReview,
+};
@@ -0,0 +1,22 @@
+import "server-only";
+
+import type { TeamMember } from "@/lib/managerApi";
+import { serverBackend } from "@/lib/server/backend";
+
+// Every technician's status and recent history, for manager routes. A list
+// that couldn't be read comes back as an error, not as a short team.
+export async function loadTeam(days: number): Promise<{ team: TeamMember[]; error?: string }> {
+  const { technicians, error } = await serverBackend.fetchTechnicians();
+  if (error) return { team: [], error: `Technician list: ${error}` };
+
+  const team = await Promise.all(
+    technicians.map(async (technician) => {
+      const [status, history] = await Promise.all([
+        serverBackend.checkStatus(technician.name),
+        serverBackend.fetchHistory(technician.name, days),
+      ]);
+      return { technician, status, history };
+    })
+  );
+  return { team };
+}
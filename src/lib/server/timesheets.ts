@@ -0,0 +1,127 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import type { HistoryResponse, Timesheet, TimesheetSubmission } from "@/lib/backend/types";
+import { addDays, dateKeyFor, daysBetween, formatDateKey, todayKey, weekStartKey } from "@/lib/businessTime";
+import { serverBackend } from "@/lib/server/backend";
+import { badRequest } from "@/lib/server/http";
+import { isShiftInOrder } from "@/lib/shiftChecks";
+import { lockedWeekFor, lockedWeekForDays, weekTotals } from "@/lib/timesheets";
+
+// Timesheet checks for the route handlers. They go by the tech's history, so
+// they hold whichever backend keeps the timesheets.
+
+// Far enough back for any shift a tech can still see in History
+const EDIT_LOOKBACK_DAYS = 60;
+
+function conflict(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 409 });
+}
+
+// 502 leaves the change retryable; the week may well be open
+function historyUnavailable(history: HistoryResponse) {
+  return NextResponse.json(
+    { success: false, error: history.error || "Couldn't check this week's timesheet. Please try again." },
+    { status: 502 }
+  );
+}
+
+function describeLock(timesheet: Timesheet): string {
+  const week = formatDateKey(timesheet.week_start, { month: "short", day: "numeric" });
+  return `The week of ${week} is ${timesheet.status}. Ask a manager to reopen it to make changes.`;
+}
+
+// Edits can't leave a shift ending before it starts, or touch a submitted or
+// approved week, whether the shift is in one or the new time would move it into
+// one. A shift that's still open is only exempt in its own week: it was never
+// part of what the tech attested to (weeks can't be submitted with one open),
+// and a missed clock-out has to be fixed to punch again. Moving it into another
+// week is checked like any other edit.
+export async function checkEditAllowed(
+  techName: string,
+  shiftId: string,
+  field: "clock_in" | "clock_out",
+  newValue: string
+): Promise<NextResponse | null> {
+  const history = await serverBackend.fetchHistory(techName, EDIT_LOOKBACK_DAYS);
+  if (history.error) return historyUnavailable(history);
+
+  const shift = history.time_entries.find((entry) => entry.shift_id === shiftId);
+  if (
+    shift &&
+    !isShiftInOrder(field === "clock_in" ? newValue : shift.clock_in, field === "clock_out" ? newValue : shift.clock_out)
+  ) {
+    return badRequest("Clock-out must be after clock-in");
+  }
+  if (shift && shift.clock_out === null) {
+    if (weekStartKey(dateKeyFor(newValue)) === weekStartKey(dateKeyFor(shift.clock_in))) return null;
+    const locked = lockedWeekFor(history.timesheets, newValue);
+    return locked ? conflict(describeLock(locked)) : null;
+  }
+
+  const locked = lockedWeekFor(history.timesheets, ...(shift ? [shift.clock_in] : []), newValue);
+  return locked ? conflict(describeLock(locked)) : null;
+}
+
+// Mileage corrections and deletions follow the same lock, by the entry's date
+// and, for a correction, its new date
+export async function checkMileageChangeAllowed(
+  techName: string,
+  entryId: string,
+  newDate: string | null
+): Promise<NextResponse | null> {
+  const history = await serverBackend.fetchHistory(techName, EDIT_LOOKBACK_DAYS);
+  if (history.error) return historyUnavailable(history);
+
+  const entry = history.mileage_entries.find((e) => e.entry_id === entryId);
+  const dates = [...(entry ? [entry.date] : []), ...(newDate ? [newDate] : [])];
+  const locked = lockedWeekForDays(history.timesheets, ...dates);
+  return locked ? conflict(describeLock(locked)) : null;
+}
+
+// Nor can new mileage be dated into one
+export async function checkNewMileageAllowed(techName: string, date: string): Promise<NextResponse | null> {
+  const history = await serverBackend.fetchHistory(techName, EDIT_LOOKBACK_DAYS);
+  if (history.error) return historyUnavailable(history);
+
+  const locked = lockedWeekForDays(history.timesheets, date);
+  return locked ? conflict(describeLock(locked)) : null;
+}
+
+// Or a shift start. Only weeks that have ended can be submitted, so this only
+// looks up the timesheets for a clock-in stamped before this week, such as one
+// replayed from an offline queue.
+export async function checkClockInAllowed(techName: string, timestamp: string): Promise<NextResponse | null> {
+  if (weekStartKey(dateKeyFor(timestamp)) >= weekStartKey(todayKey())) return null;
+
+  const history = await serverBackend.fetchHistory(techName, EDIT_LOOKBACK_DAYS);
+  if (history.error) return historyUnavailable(history);
+
+  const locked = lockedWeekFor(history.timesheets, timestamp);
+  return locked ? conflict(describeLock(locked)) : null;
+}
+
+// A week goes in closed out and exactly as the tech reviewed it
+export async function checkSubmission(
+  techName: string,
+  submission: TimesheetSubmission
+): Promise<NextResponse | null> {
+  const history = await serverBackend.fetchHistory(techName, daysBetween(submission.week_start, todayKey()) + 1);
+  if (history.error) return historyUnavailable(history);
+
+  const end = addDays(submission.week_start, 7);
+  const shifts = history.time_entries.filter((entry) => entry.date >= submission.week_start && entry.date < end);
+  if (shifts.some((entry) => entry.clock_out === null)) {
+    return conflict("Clock out before submitting this week");
+  }
+
+  const totals = weekTotals(
+    submission.week_start,
+    shifts.map((entry) => ({ date: entry.date, hours: entry.hours_worked })),
+    history.mileage_entries
+  );
+  if (totals.hours !== submission.hours || totals.miles !== submission.miles) {
+    return conflict("This week changed since you opened it. Review it again before submitting.");
+  }
+  return null;
+}
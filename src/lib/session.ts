@@ -0,0 +1,113 @@
+// Signed-in technician
+// The session token from /api/auth/login is kept in localStorage and sent with
+// every API call. It replaces the old bare "ahp_current_user" name.
+
+import { describeFailure, parseResponse, sessionGrantSchema, signInResponseSchema } from "@/lib/backend/schemas";
+import { clearDataCache } from "@/lib/backend/serviceWorkerCache";
+
+const SESSION_KEY = "ahp_session";
+const LEGACY_USER_KEY = "ahp_current_user";
+
+export interface ClientSession {
+  tech_name: string;
+  role: "tech" | "manager";
+  token: string;
+  expires_at: string;
+}
+
+// What /api/auth/login answers; a successful one also carries a SessionGrant
+export interface SignInResponse {
+  success: boolean;
+  error?: string;
+  locked_until?: string;
+}
+
+export type SessionGrant = Omit<ClientSession, "tech_name">;
+
+export type SignInResult =
+  | { success: true }
+  | { success: false; error: string; locked_until?: string };
+
+type SessionListener = () => void;
+const listeners = new Set<SessionListener>();
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+// Also picks up sign-ins and sign-outs from other tabs
+export function subscribeToSession(listener: SessionListener): () => void {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+}
+
+// Parsed once per stored value so callers get a stable object
+let cachedRaw: string | null = null;
+let cachedSession: ClientSession | null = null;
+
+export function getSession(): ClientSession | null {
+  const raw = localStorage.getItem(SESSION_KEY);
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    try {
+      cachedSession = raw ? JSON.parse(raw) : null;
+    } catch {
+      cachedSession = null;
+    }
+  }
+
+  if (cachedSession && new Date(cachedSession.expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+  return cachedSession;
+}
+
+export function clearSession() {
+  localStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(LEGACY_USER_KEY);
+  notifyListeners();
+  clearDataCache().catch((error) => console.error("Failed to clear cached data:", error));
+}
+
+export function authHeaders(): Record<string, string> {
+  const session = getSession();
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
+
+export async function signIn(techName: string, pin: string): Promise<SignInResult> {
+  try {
+    const response = await fetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ tech_name: techName, pin }),
+    });
+
+    if (response.status >= 500) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const result = parseResponse(signInResponseSchema, await response.json(), "sign-in result");
+    if (!result.success) {
+      return { success: false, error: result.error || "Sign in failed", locked_until: result.locked_until };
+    }
+
+    const grant = parseResponse(sessionGrantSchema, result, "session");
+    const session: ClientSession = {
+      tech_name: techName,
+      role: grant.role,
+      token: grant.token,
+      expires_at: grant.expires_at,
+    };
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    localStorage.removeItem(LEGACY_USER_KEY);
+    notifyListeners();
+    return { success: true };
+  } catch (error) {
+    console.error("Failed to sign in:", error);
+    return { success: false, error: describeFailure(error) };
+  }
+}
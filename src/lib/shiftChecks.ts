@@ -0,0 +1,58 @@
+import type { TimeEntry } from "@/lib/backend/types";
+import { dateKeyFor, todayKey } from "@/lib/businessTime";
+
+// Shift sanity checks used to flag entries for the manager
+
+export type ShiftFlag = "open" | "long" | "overnight" | "short" | "off_site" | "edited";
+
+export const LONG_SHIFT_HOURS = 12;
+export const SHORT_SHIFT_MINUTES = 15;
+// Set NEXT_PUBLIC_FORGOTTEN_CLOCK_OUT_HOURS to change
+export const FORGOTTEN_CLOCK_OUT_HOURS = Number(process.env.NEXT_PUBLIC_FORGOTTEN_CLOCK_OUT_HOURS) || 16;
+
+export const SHIFT_FLAG_LABELS: Record<ShiftFlag, string> = {
+  open: "Still open",
+  long: `Over ${LONG_SHIFT_HOURS}h`,
+  overnight: "Crosses midnight",
+  short: `Under ${SHORT_SHIFT_MINUTES}m`,
+  off_site: "Punched off-site",
+  edited: "Edited",
+};
+
+// A shift ends after it starts; an open one hasn't ended
+export function isShiftInOrder(clockIn: string, clockOut: string | null): boolean {
+  return clockOut === null || new Date(clockOut).getTime() > new Date(clockIn).getTime();
+}
+
+// Either punch landed outside every geofence. Missing fixes aren't flagged.
+export function isOffSite(entry: TimeEntry): boolean {
+  return entry.clock_in_location?.geofence === "outside" || entry.clock_out_location?.geofence === "outside";
+}
+
+export function getShiftFlags(entry: TimeEntry, now: Date = new Date()): ShiftFlag[] {
+  const flags: ShiftFlag[] = [];
+  const start = new Date(entry.clock_in);
+  const end = entry.clock_out ? new Date(entry.clock_out) : now;
+  const durationMinutes = (end.getTime() - start.getTime()) / (1000 * 60);
+
+  if (!entry.clock_out) flags.push("open");
+  if (durationMinutes > LONG_SHIFT_HOURS * 60) flags.push("long");
+  if (dateKeyFor(end) !== dateKeyFor(start)) flags.push("overnight");
+  if (entry.clock_out && durationMinutes < SHORT_SHIFT_MINUTES) flags.push("short");
+  if (isOffSite(entry)) flags.push("off_site");
+  if (entry.edited) flags.push("edited");
+
+  return flags;
+}
+
+// A shift still open past the threshold, or from an earlier business day, most
+// likely missed its clock-out. The tech has to close it before punching again.
+export function isForgottenClockOut(clockIn: string, now: Date = new Date()): boolean {
+  const openHours = (now.getTime() - new Date(clockIn).getTime()) / (1000 * 60 * 60);
+  return openHours > FORGOTTEN_CLOCK_OUT_HOURS || dateKeyFor(clockIn) !== todayKey(now);
+}
+
+// Edits alone are expected; anything else needs a look
+export function isSuspicious(flags: ShiftFlag[]): boolean {
+  return flags.some((flag) => flag !== "edited" && flag !== "open");
+}
@@ -0,0 +1,5 @@
+// Shift IDs are minted on the device at clock-in, so a punch made offline already
+// carries the ID it keeps once synced, and any number of shifts can share a date.
+export function newShiftId(): string {
+  return `shift_${crypto.randomUUID()}`;
+}
@@ -0,0 +1,59 @@
+import type { SiteSegment, TimeEntry } from "@/lib/backend/types";
+import { breakMinutes } from "@/lib/breaks";
+
+// Time per job site
+// A shift's site_segments say where the tech was from one switch to the next.
+// Each segment's hours are its time inside the shift less the breaks taken
+// during it. Time before the first segment, or on a shift with none, has no site.
+
+export interface SiteHours {
+  site_id: string | null;
+  hours: number;
+}
+
+export function currentSiteId(segments: SiteSegment[] = []): string | null {
+  return segments.find((segment) => segment.end === null)?.site_id ?? null;
+}
+
+// Ends the open segment and starts one at the new site
+export function switchSegments(segments: SiteSegment[] = [], siteId: string, timestamp: string): SiteSegment[] {
+  return [...closeSiteSegments(segments, timestamp), { site_id: siteId, start: timestamp, end: null }];
+}
+
+export function closeSiteSegments(segments: SiteSegment[] = [], timestamp: string): SiteSegment[] {
+  return segments.map((segment) => (segment.end === null ? { ...segment, end: timestamp } : segment));
+}
+
+function round(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+export function siteHours(entry: TimeEntry, now: Date = new Date()): SiteHours[] {
+  const shiftStart = new Date(entry.clock_in).getTime();
+  const shiftEnd = entry.clock_out ? new Date(entry.clock_out).getTime() : now.getTime();
+  const segments = [...(entry.site_segments ?? [])].sort((a, b) => a.start.localeCompare(b.start));
+
+  const windows: { site_id: string | null; start: number; end: number }[] = [];
+  const firstStart = segments.length > 0 ? new Date(segments[0].start).getTime() : shiftEnd;
+  if (firstStart > shiftStart) {
+    windows.push({ site_id: null, start: shiftStart, end: Math.min(firstStart, shiftEnd) });
+  }
+  for (const segment of segments) {
+    windows.push({
+      site_id: segment.site_id,
+      start: Math.max(new Date(segment.start).getTime(), shiftStart),
+      end: Math.min(segment.end ? new Date(segment.end).getTime() : shiftEnd, shiftEnd),
+    });
+  }
+
+  const totals = new Map<string | null, number>();
+  for (const window of windows) {
+    if (window.end <= window.start) continue;
+    const minutes =
+      (window.end - window.start) / (1000 * 60) -
+      breakMinutes(entry.breaks, new Date(window.start).toISOString(), new Date(window.end));
+    totals.set(window.site_id, (totals.get(window.site_id) ?? 0) + minutes / 60);
+  }
+
+  return [...totals.entries()].map(([site_id, hours]) => ({ site_id, hours: round(hours) }));
+}
@@ -0,0 +1,65 @@
+import type { Timesheet, WeekStatus } from "@/lib/backend/types";
+import { addDays, dateKeyFor, todayKey, weekStartKey } from "@/lib/businessTime";
+
+// Weekly timesheet sign-off
+// Techs review a week's shifts and mileage and attest that the totals are right.
+// A submitted week can't be edited until a manager reopens it; approval is the
+// manager's sign-off and locks it the same way.
+
+export const TIMESHEET_ATTESTATION =
+  "I confirm these hours and miles are a complete and accurate record of my work for this week.";
+
+export const WEEK_STATUS_LABELS: Record<WeekStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  approved: "Approved",
+};
+
+export function timesheetFor(timesheets: Timesheet[] | undefined, weekStart: string): Timesheet {
+  return timesheets?.find((timesheet) => timesheet.week_start === weekStart) ?? { week_start: weekStart, status: "draft" };
+}
+
+export function isWeekLocked(timesheet: Timesheet): boolean {
+  return timesheet.status !== "draft";
+}
+
+// An edit touches the entry's week and, when it moves, the week it moves to
+export function lockedWeekForDays(timesheets: Timesheet[] | undefined, ...dateKeys: string[]): Timesheet | null {
+  for (const dateKey of dateKeys) {
+    const timesheet = timesheetFor(timesheets, weekStartKey(dateKey));
+    if (isWeekLocked(timesheet)) return timesheet;
+  }
+  return null;
+}
+
+// The same for punch times
+export function lockedWeekFor(timesheets: Timesheet[] | undefined, ...dates: (string | Date)[]): Timesheet | null {
+  return lockedWeekForDays(timesheets, ...dates.map((date) => dateKeyFor(date)));
+}
+
+export function isWeekStart(dateKey: string): boolean {
+  return weekStartKey(dateKey) === dateKey;
+}
+
+// Weeks can be submitted once they've ended, so nothing is punched into a week
+// after the tech signs it off
+export function isSubmittableWeek(weekStart: string, now: Date = new Date()): boolean {
+  return isWeekStart(weekStart) && weekStart < weekStartKey(todayKey(now));
+}
+
+export function weekDateKeys(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+}
+
+// Hours and miles for one week, rounded the way they're shown and attested to
+export function weekTotals(
+  weekStart: string,
+  shifts: { date: string; hours: number | null }[],
+  mileage: { date: string; miles: number }[]
+): { hours: number; miles: number } {
+  const end = addDays(weekStart, 7);
+  const inWeek = (date: string) => date >= weekStart && date < end;
+  const hours = shifts.filter((shift) => inWeek(shift.date)).reduce((sum, shift) => sum + (shift.hours ?? 0), 0);
+  const miles = mileage.filter((entry) => inWeek(entry.date)).reduce((sum, entry) => sum + entry.miles, 0);
+  return { hours: Math.round(hours * 100) / 100, miles: Math.round(miles * 10) / 10 };
+}